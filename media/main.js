@@ -0,0 +1,621 @@
+const vscode = acquireVsCodeApi();
+const L = JSON.parse(document.getElementById('webview-strings').textContent);
+const format = (text, ...args) => text.replace(/\{(\d+)\}/g, (m, i) => args[i] ?? m);
+const escapeHtml = (text) => String(text ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+const chatHistory = document.getElementById('chat-history');
+const promptInput = document.getElementById('prompt-input');
+const globalActions = document.getElementById('global-actions');
+// 仍有快照可以撤销的操作 (快照只保存在内存中，重新加载窗口后不能撤销)
+let revertibleActions = new Set();
+
+vscode.postMessage({ type: 'ready' });
+
+window.addEventListener('message', event => {
+    const msg = event.data;
+    switch (msg.type) {
+        case 'addMessage':
+            renderMessage(msg.message, msg.index);
+            break;
+        case 'restoreHistory':
+            chatHistory.innerHTML = '';
+            revertibleActions = new Set(msg.revertible);
+            msg.history.forEach(renderMessage);
+            break;
+        case 'clearChat':
+            chatHistory.innerHTML = '';
+            break;
+        case 'actionComplete':
+            markActionComplete(msg.actionId, msg.revertible);
+            showActionOutput(msg.actionId, msg.output);
+            break;
+        case 'actionReverted':
+            markActionReverted(msg.actionId);
+            break;
+        case 'actionRejected':
+            markActionRejected(msg.actionId);
+            break;
+        case 'actionUpdated':
+            renderActionCard(msg.action);
+            break;
+        case 'actionError':
+            showActionError(msg.actionId, msg.error);
+            break;
+        case 'actionPolicy':
+            showActionPolicy(msg.actionId, msg.policy);
+            break;
+        case 'actionWarning':
+            showActionWarning(msg.actionId, msg.warning);
+            break;
+        case 'toggleApproveAll':
+            globalActions.style.display = msg.show ? 'block' : 'none';
+            document.getElementById('btn-approve-all').style.display = msg.approvable === false ? 'none' : '';
+            break;
+        case 'contextBuffer':
+            updateContextBuffer(msg.titles);
+            break;
+        case 'contextItems':
+            updateContextItems(msg.items, msg.total, msg.budget);
+            break;
+        case 'streamStart':
+            startStream();
+            break;
+        case 'streamText':
+            if (streamDiv) {
+                streamDiv.textContent += msg.text;
+                chatHistory.scrollTop = chatHistory.scrollHeight;
+            }
+            break;
+        case 'streamEnd':
+            endStream();
+            break;
+        case 'restoreInput':
+            // 发送失败时恢复输入的内容，等待期间已输入新内容时不覆盖
+            if (!promptInput.value) promptInput.value = msg.text;
+            break;
+        case 'setPrompt':
+            promptInput.value = msg.text;
+            promptInput.focus();
+            promptInput.setSelectionRange(msg.text.length, msg.text.length);
+            break;
+    }
+});
+
+document.getElementById('btn-approve-all').onclick = () => {
+    vscode.postMessage({ type: 'approveAll' });
+};
+
+document.getElementById('btn-reject-all').onclick = () => {
+    vscode.postMessage({ type: 'rejectAll' });
+};
+
+/** index 为消息在历史中的位置，用于从这条消息开始新的对话线程 */
+function renderMessage(message, index) {
+    if (message.threadStart) {
+        const divider = document.createElement('div');
+        divider.className = 'thread-divider';
+        divider.innerText = L.newThread;
+        chatHistory.appendChild(divider);
+    }
+    if (message.role === 'action') {
+        renderActionCard(message.action);
+        return;
+    }
+    if (message.verification) {
+        renderVerificationCard(message);
+        return;
+    }
+
+    const div = document.createElement('div');
+    div.className = 'message ' + message.role;
+
+    if (message.role === 'ai') {
+        renderMarkdown(div, message.text);
+    } else if (message.role === 'user') {
+        div.innerText = message.text;
+    } else {
+        // 系统消息中会包含 AI 给出的路径和命令，同样需要过滤
+        div.innerHTML = DOMPurify.sanitize(message.text);
+    }
+
+    if (message.snippet) {
+        div.appendChild(createSnippet(message.snippet));
+    }
+
+    if (message.batchId) {
+        const revertBatchBtn = document.createElement('button');
+        revertBatchBtn.className = 'revert-batch';
+        revertBatchBtn.innerText = L.revertBatch;
+        revertBatchBtn.onclick = () => {
+            vscode.postMessage({ type: 'revertBatch', batchId: message.batchId });
+        };
+        div.appendChild(revertBatchBtn);
+    }
+
+    if ((message.role === 'user' || message.role === 'ai') && index !== undefined) {
+        const threadLink = document.createElement('a');
+        threadLink.href = '#';
+        threadLink.className = 'new-thread-link';
+        threadLink.innerText = L.newThreadHere;
+        threadLink.onclick = (e) => {
+            e.preventDefault();
+            vscode.postMessage({ type: 'newThread', index });
+        };
+        div.appendChild(threadLink);
+    }
+
+    chatHistory.appendChild(div);
+    chatHistory.scrollTop = chatHistory.scrollHeight;
+}
+
+/** 修改后的诊断检查结果：摘要、新出现的问题列表以及复制修复 Prompt 的按钮 */
+function renderVerificationCard(message) {
+    const report = message.verification;
+    const card = document.createElement('div');
+    card.className = 'message verification' + (report.problems.length > 0 ? ' has-problems' : '');
+    const summary = document.createElement('div');
+    summary.innerText = message.text;
+    card.appendChild(summary);
+
+    if (report.problems.length > 0) {
+        const list = document.createElement('ul');
+        list.className = 'verification-problems';
+        for (const problem of report.problems) {
+            const item = document.createElement('li');
+            item.className = 'problem-' + problem.severity;
+            item.innerText = `${problem.path}:${problem.line} ${problem.message}${problem.source ? ` (${problem.source})` : ''}`;
+            list.appendChild(item);
+        }
+        card.appendChild(list);
+
+        const copyBtn = document.createElement('button');
+        copyBtn.className = 'copy-fixup';
+        copyBtn.innerText = L.copyFixupPrompt;
+        copyBtn.onclick = () => {
+            vscode.postMessage({ type: 'copyFixupPrompt', reportId: report.id });
+        };
+        card.appendChild(copyBtn);
+    }
+
+    chatHistory.appendChild(card);
+    chatHistory.scrollTop = chatHistory.scrollHeight;
+}
+
+/** AI 回复按 Markdown 渲染，过滤掉脚本等危险内容后再高亮代码块 */
+function renderMarkdown(element, text) {
+    element.innerHTML = DOMPurify.sanitize(marked.parse(text));
+    element.querySelectorAll('pre code').forEach(block => hljs.highlightElement(block));
+}
+
+function createSnippet(text) {
+    const pre = document.createElement('pre');
+    pre.className = 'action-snippet';
+    pre.innerText = text;
+    return pre;
+}
+
+function renderInvalidCard(action) {
+    const card = document.createElement('div');
+    card.id = 'card-' + action.id;
+    card.className = 'message ai';
+    card.style.borderLeft = '4px solid var(--vscode-errorForeground)';
+    const title = document.createElement('strong');
+    title.innerText = format(L.invalidAction, action.type);
+    card.appendChild(title);
+    for (const error of action.errors || []) {
+        const errDiv = document.createElement('div');
+        errDiv.className = 'action-error-text';
+        errDiv.innerText = error;
+        card.appendChild(errDiv);
+    }
+    if (action.snippet) {
+        card.appendChild(createSnippet(action.snippet));
+    }
+    chatHistory.appendChild(card);
+    chatHistory.scrollTop = chatHistory.scrollHeight;
+}
+
+function renderActionCard(action) {
+    if (action.status === 'invalid') {
+        renderInvalidCard(action);
+        return;
+    }
+    // 修改后重新渲染时替换原来的卡片
+    const existing = document.getElementById('card-' + action.id);
+    const card = document.createElement('div');
+    card.id = 'card-' + action.id;
+    card.className = 'message ai';
+    card.style.borderLeft = '4px solid var(--vscode-button-background)';
+    const id = escapeHtml(action.id);
+    const target = action.newPath ? action.path + ' → ' + action.newPath : action.path || action.command || action.url || action.query || (action.files || []).join(', ');
+    card.innerHTML = `
+        <strong>${escapeHtml(format(L.pendingAction, action.type))}</strong>${action.edited ? ` <span class="action-edited">${L.edited}</span>` : ''}<br>
+        <code>${escapeHtml(target)}</code><br>
+        <div class="action-buttons">
+            <button id="action-${id}">${L.approve}</button>
+        </div>
+        <div id="match-${id}" class="action-match-text"></div>
+        <div id="policy-${id}" class="action-policy-text"></div>
+        <div id="warning-${id}" class="action-warning-text"></div>
+        <div id="error-${id}" class="action-error-text"></div>
+    `;
+    const buttons = card.querySelector('.action-buttons');
+    const body = createActionBody(action);
+    if (body) card.insertBefore(body, buttons);
+    if (existing) {
+        existing.replaceWith(card);
+    } else {
+        chatHistory.appendChild(card);
+    }
+
+    const btn = document.getElementById('action-' + action.id);
+    btn.onclick = () => {
+        document.getElementById('error-' + action.id).innerText = '';
+        vscode.postMessage({ type: 'approveAction', actionId: action.id });
+    };
+    if ((action.status || 'pending') === 'pending') {
+        const rejectBtn = document.createElement('button');
+        rejectBtn.className = 'pending-only';
+        rejectBtn.innerText = L.reject;
+        rejectBtn.onclick = () => {
+            vscode.postMessage({ type: 'rejectAction', actionId: action.id });
+        };
+        buttons.appendChild(rejectBtn);
+
+        const form = createEditForm(action);
+        const editBtn = document.createElement('button');
+        editBtn.className = 'pending-only';
+        editBtn.innerText = L.edit;
+        editBtn.onclick = () => {
+            form.style.display = form.style.display === 'none' ? 'block' : 'none';
+        };
+        buttons.appendChild(editBtn);
+        buttons.after(form);
+    }
+
+    if (action.type === 'FETCH' && action.url) {
+        const openBtn = document.createElement('button');
+        openBtn.innerText = L.openInBrowser;
+        openBtn.onclick = () => {
+            vscode.postMessage({ type: 'openExternal', actionId: action.id });
+        };
+        btn.parentElement.appendChild(openBtn);
+    }
+    if (action.type === 'MODIFY' || action.type === 'CREATE' || action.type === 'PATCH') {
+        const previewBtn = document.createElement('button');
+        previewBtn.id = 'preview-' + action.id;
+        previewBtn.className = 'pending-only';
+        previewBtn.innerText = L.preview;
+        previewBtn.onclick = () => {
+            vscode.postMessage({ type: 'previewAction', actionId: action.id });
+        };
+        btn.parentElement.appendChild(previewBtn);
+    }
+    if (action.match) {
+        showActionMatch(action.id, action.match);
+    }
+    if (action.policy) {
+        showActionPolicy(action.id, action.policy);
+    }
+    if (action.warning) {
+        showActionWarning(action.id, action.warning);
+    }
+    if (action.error && (action.status || 'pending') === 'pending') {
+        showActionError(action.id, action.error);
+    }
+    if (action.status === 'done') {
+        markActionComplete(action.id, revertibleActions.has(action.id));
+        showActionOutput(action.id, action.output);
+    } else if (action.status === 'reverted') {
+        markActionReverted(action.id);
+    } else if (action.status === 'rejected') {
+        markActionRejected(action.id);
+    }
+    if (!existing) chatHistory.scrollTop = chatHistory.scrollHeight;
+}
+
+/** 卡片中可以查看和编辑的字段：[字段, 工具调用中的字段名, 是否为代码块] */
+function actionFields(action) {
+    const fields = [
+        ['path', action.type === 'MKDIR' || action.type === 'LIST' ? 'PATH' : 'FILE', false],
+        ['newPath', 'TO', false],
+        ['command', 'COMMAND', false],
+        ['url', 'URL', false],
+        ['before', 'BEFORE', true],
+        ['content', action.type === 'MODIFY' ? 'AFTER' : action.type === 'PATCH' ? 'DIFF' : 'CONTENT', true]
+    ];
+    return fields.filter(([field]) => typeof action[field] === 'string');
+}
+
+/** 根据文件扩展名选择高亮语言，PATCH 使用 diff */
+function codeLanguage(action) {
+    if (action.type === 'PATCH') return 'diff';
+    const ext = (action.path || '').split('.').pop().toLowerCase();
+    return ext && hljs.getLanguage(ext) ? ext : 'plaintext';
+}
+
+/** 可展开的代码块内容 (BEFORE/AFTER/CONTENT/DIFF)，展开时才高亮 */
+function createActionBody(action) {
+    const blocks = actionFields(action).filter(([, , block]) => block);
+    if (blocks.length === 0) return null;
+    const details = document.createElement('details');
+    details.className = 'action-body';
+    const summary = document.createElement('summary');
+    summary.innerText = L.details;
+    details.appendChild(summary);
+    for (const [field, name] of blocks) {
+        const label = document.createElement('div');
+        label.className = 'action-field-label';
+        label.innerText = name + ':';
+        const pre = document.createElement('pre');
+        const code = document.createElement('code');
+        code.className = 'language-' + codeLanguage(action);
+        code.textContent = action[field];
+        pre.appendChild(code);
+        details.append(label, pre);
+    }
+    details.addEventListener('toggle', () => {
+        if (details.open) details.querySelectorAll('code:not(.hljs)').forEach(block => hljs.highlightElement(block));
+    });
+    return details;
+}
+
+/** 批准前修改路径、命令、URL 和代码块的表单，保存后由扩展校验并重新渲染卡片 */
+function createEditForm(action) {
+    const form = document.createElement('div');
+    form.className = 'action-edit-form pending-only';
+    form.style.display = 'none';
+    const inputs = {};
+    for (const [field, name, block] of actionFields(action)) {
+        const label = document.createElement('label');
+        label.className = 'action-field-label';
+        label.innerText = name + ':';
+        const input = document.createElement(block ? 'textarea' : 'input');
+        input.value = action[field];
+        if (block) input.rows = Math.min(15, Math.max(3, action[field].split('\n').length));
+        inputs[field] = input;
+        form.append(label, input);
+    }
+
+    const buttons = document.createElement('div');
+    buttons.className = 'action-buttons';
+    const saveBtn = document.createElement('button');
+    saveBtn.innerText = L.save;
+    saveBtn.onclick = () => {
+        const changes = {};
+        for (const field in inputs) changes[field] = inputs[field].value;
+        document.getElementById('error-' + action.id).innerText = '';
+        vscode.postMessage({ type: 'editAction', actionId: action.id, changes });
+    };
+    const cancelBtn = document.createElement('button');
+    cancelBtn.innerText = L.cancel;
+    cancelBtn.onclick = () => {
+        for (const field in inputs) inputs[field].value = action[field];
+        form.style.display = 'none';
+    };
+    buttons.append(saveBtn, cancelBtn);
+    form.appendChild(buttons);
+    return form;
+}
+
+function markActionComplete(actionId, revertible) {
+    const btn = document.getElementById('action-' + actionId);
+    if (btn) {
+        btn.innerText = L.completed;
+        btn.disabled = true;
+        document.getElementById('card-' + actionId).style.opacity = '0.7';
+        document.getElementById('card-' + actionId).querySelectorAll('.pending-only').forEach(e => e.remove());
+        if (revertible && !document.getElementById('revert-' + actionId)) {
+            const revertBtn = document.createElement('button');
+            revertBtn.id = 'revert-' + actionId;
+            revertBtn.innerText = L.revert;
+            revertBtn.onclick = () => {
+                document.getElementById('error-' + actionId).innerText = '';
+                vscode.postMessage({ type: 'revertAction', actionId });
+            };
+            btn.parentElement.appendChild(revertBtn);
+        }
+    }
+}
+
+const OUTPUT_PREVIEW_LINES = 15;
+
+function showActionOutput(actionId, output) {
+    const card = document.getElementById('card-' + actionId);
+    if (!card || !output) return;
+    const lines = output.split('\n');
+    const details = document.createElement('details');
+    details.className = 'action-output';
+    details.open = true;
+    const summary = document.createElement('summary');
+    summary.innerText = format(L.outputLines, lines.length);
+    const pre = document.createElement('pre');
+    details.appendChild(summary);
+    details.appendChild(pre);
+
+    if (lines.length > OUTPUT_PREVIEW_LINES) {
+        pre.innerText = lines.slice(0, OUTPUT_PREVIEW_LINES).join('\n') + '\n…';
+        const expandBtn = document.createElement('button');
+        expandBtn.innerText = L.expandAll;
+        expandBtn.onclick = () => {
+            pre.innerText = output;
+            expandBtn.remove();
+        };
+        details.appendChild(expandBtn);
+    } else {
+        pre.innerText = output;
+    }
+    card.appendChild(details);
+}
+
+function updateContextBuffer(titles) {
+    const bar = document.getElementById('context-buffer');
+    bar.style.display = titles.length > 0 ? 'flex' : 'none';
+    document.getElementById('context-buffer-text').innerText = format(L.contextBuffer, titles.length);
+    document.getElementById('context-buffer-text').title = titles.join('\n');
+}
+
+function updateContextItems(items, total, budget) {
+    document.getElementById('context-total').innerText = format(L.contextTotal, total, budget);
+    const list = document.getElementById('context-items');
+    list.innerHTML = '';
+    for (const item of items) {
+        const row = document.createElement('div');
+        row.className = 'context-item' + (item.skipped ? ' skipped' : '');
+        const label = document.createElement('span');
+        label.className = 'context-label';
+        label.innerText = item.label;
+        label.title = item.label;
+        const tokens = document.createElement('span');
+        tokens.innerText = item.tokens;
+        row.appendChild(label);
+        row.appendChild(tokens);
+        if (item.truncated || item.skipped) {
+            const badge = document.createElement('span');
+            badge.className = 'context-badge';
+            badge.innerText = item.skipped ? format(L.skipped, item.skipped) : L.truncated;
+            row.appendChild(badge);
+        }
+        const remove = document.createElement('a');
+        remove.href = '#';
+        remove.innerText = '×';
+        remove.title = L.remove;
+        remove.onclick = (e) => {
+            e.preventDefault();
+            vscode.postMessage({ type: 'removeContextItem', id: item.id });
+        };
+        row.appendChild(remove);
+        list.appendChild(row);
+    }
+}
+
+document.querySelectorAll('.context-add a').forEach(link => {
+    link.onclick = (e) => {
+        e.preventDefault();
+        vscode.postMessage({ type: 'addContextItem', kind: link.dataset.kind });
+    };
+});
+
+document.getElementById('btn-new-thread').onclick = (e) => {
+    e.preventDefault();
+    vscode.postMessage({ type: 'newThread' });
+};
+
+document.getElementById('btn-clear-context').onclick = (e) => {
+    e.preventDefault();
+    vscode.postMessage({ type: 'clearContextBuffer' });
+};
+
+function markActionReverted(actionId) {
+    const btn = document.getElementById('action-' + actionId);
+    const revertBtn = document.getElementById('revert-' + actionId);
+    if (btn) {
+        btn.innerText = L.reverted;
+        btn.disabled = true;
+        document.getElementById('card-' + actionId).style.opacity = '0.5';
+    }
+    if (revertBtn) {
+        revertBtn.remove();
+    }
+}
+
+function markActionRejected(actionId) {
+    const btn = document.getElementById('action-' + actionId);
+    if (btn) {
+        btn.innerText = L.rejected;
+        btn.disabled = true;
+        const card = document.getElementById('card-' + actionId);
+        card.style.opacity = '0.5';
+        card.querySelectorAll('.pending-only').forEach(e => e.remove());
+    }
+}
+
+function showActionMatch(actionId, match) {
+    const matchDiv = document.getElementById('match-' + actionId);
+    if (!matchDiv) return;
+    let text = match.strategy === 'exact' ? L.matchExact
+        : match.strategy === 'whitespace' ? L.matchWhitespace
+        : format(L.matchSimilarity, Math.round(match.score * 100));
+    if (match.candidates > 1) text += format(L.matchCandidates, match.candidates);
+    matchDiv.innerText = text;
+    if (match.strategy === 'similarity') matchDiv.classList.add('low-confidence');
+}
+
+function showActionPolicy(actionId, policy) {
+    const policyDiv = document.getElementById('policy-' + actionId);
+    if (!policyDiv) return;
+    const level = policy.risk === 'high' ? L.riskHigh : policy.risk === 'medium' ? L.riskMedium : L.riskLow;
+    let text = format(L.risk, level);
+    if (policy.reasons.length > 0) text += ' (' + policy.reasons.join(', ') + ')';
+    if (policy.verdict === 'allow') text += format(L.policyAllow, policy.rule);
+    if (policy.verdict === 'deny') text += format(L.policyDeny, policy.rule);
+    policyDiv.innerText = text;
+    policyDiv.className = 'action-policy-text risk-' + policy.risk;
+}
+
+function showActionWarning(actionId, warningMsg) {
+    const warnDiv = document.getElementById('warning-' + actionId);
+    if (warnDiv) {
+        warnDiv.innerText = '⚠️ ' + warningMsg;
+    }
+}
+
+function showActionError(actionId, errorMsg) {
+    const errDiv = document.getElementById('error-' + actionId);
+    if (errDiv) {
+        errDiv.innerText = format(L.actionError, errorMsg);
+    }
+}
+
+document.getElementById('btn-copy').addEventListener('click', () => {
+    vscode.postMessage({
+        type: 'copyPrompt',
+        inputValue: promptInput.value,
+        options: {
+            includeShellOutput: document.getElementById('chk-shell').checked,
+            includeConversation: document.getElementById('chk-conversation').checked
+        }
+    });
+});
+
+// 模型的回复在流式接收时以纯文本显示，完成后作为 AI 消息重新渲染
+let streamDiv = null;
+const sendBtn = document.getElementById('btn-send');
+
+function startStream() {
+    streamDiv = document.createElement('div');
+    streamDiv.className = 'message ai streaming';
+    chatHistory.appendChild(streamDiv);
+    if (sendBtn) sendBtn.innerText = L.stop;
+}
+
+function endStream() {
+    streamDiv?.remove();
+    streamDiv = null;
+    if (sendBtn) sendBtn.innerText = L.send;
+}
+
+sendBtn?.addEventListener('click', () => {
+    if (streamDiv) {
+        vscode.postMessage({ type: 'cancelSend' });
+        return;
+    }
+    const text = promptInput.value;
+    promptInput.value = '';
+    vscode.postMessage({
+        type: 'send',
+        inputValue: text,
+        options: {
+            includeShellOutput: document.getElementById('chk-shell').checked,
+            includeConversation: document.getElementById('chk-conversation').checked
+        }
+    });
+});
+
+document.getElementById('btn-apply').addEventListener('click', () => {
+    const text = promptInput.value;
+    promptInput.value = '';
+    vscode.postMessage({
+        type: 'applyChange',
+        inputValue: text
+    });
+});
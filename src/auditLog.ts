@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentAction } from './types';
+
+/**
+ * parsed: 从 AI 回复中解析出操作；invalid: 解析或校验失败；approved: 用户批准 (auto 表示由 Approve All 批准)；
+ * done/failed/cancelled: 执行结果；reverted: 已撤销；skipped/denied: SHELL 命令被策略跳过或禁止；
+ * edited: 批准前被用户修改；rejected: 被用户拒绝
+ */
+export type AuditEvent = 'parsed' | 'invalid' | 'approved' | 'done' | 'failed' | 'cancelled' | 'reverted' | 'skipped' | 'denied' | 'edited' | 'rejected';
+
+/** audit.jsonl 中的一行 */
+export interface AuditRecord {
+    timestamp: string;
+    event: AuditEvent;
+    session: string;
+    actionId?: string;
+    batchId?: string;
+    type?: AgentAction['type'];
+    path?: string;
+    newPath?: string;
+    files?: string[];
+    command?: string;
+    url?: string;
+    query?: string;
+    auto?: boolean;
+    risk?: string;
+    rule?: string;
+    warning?: string;
+    output?: string;
+    error?: string;
+}
+
+/** 日志中保留的输出最大字符数 */
+const MAX_OUTPUT = 2000;
+
+function describeAction(action: AgentAction): Partial<AuditRecord> {
+    return {
+        actionId: action.id,
+        batchId: action.batchId,
+        type: action.type,
+        path: action.path,
+        newPath: action.newPath,
+        files: action.files,
+        command: action.command,
+        url: action.url,
+        query: action.query,
+        risk: action.policy?.risk,
+        rule: action.policy?.rule,
+        warning: action.warning
+    };
+}
+
+/**
+ * 将操作的解析、批准和执行结果追加到工作区的 .only-agent/audit.jsonl (only-agent.auditLog 为 true 时)。
+ * 多根工作区时写入第一个文件夹。写入按调用顺序排队。
+ */
+export class AuditLog {
+    private _queue: Promise<void> = Promise.resolve();
+
+    public get enabled(): boolean {
+        return vscode.workspace.getConfiguration('only-agent').get<boolean>('auditLog', true);
+    }
+
+    public record(session: string, event: AuditEvent, action?: AgentAction, details: Partial<AuditRecord> = {}) {
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        if (!this.enabled || !folder || folder.uri.scheme !== 'file') return;
+
+        const record: AuditRecord = {
+            timestamp: new Date().toISOString(),
+            event,
+            session,
+            ...(action ? describeAction(action) : {}),
+            ...details
+        };
+        if (record.output && record.output.length > MAX_OUTPUT) {
+            record.output = record.output.substring(0, MAX_OUTPUT) + '…';
+        }
+        const line = JSON.stringify(record) + '\n';
+        const dir = path.join(folder.uri.fsPath, '.only-agent');
+
+        this._queue = this._queue
+            .then(async () => {
+                await fs.promises.mkdir(dir, { recursive: true });
+                await fs.promises.appendFile(path.join(dir, 'audit.jsonl'), line, 'utf8');
+            })
+            // 日志写入失败不影响操作本身
+            .catch(() => undefined);
+    }
+}
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+
+/** 批次中一个文件的状态，content 为空表示文件不存在 (或已被删除) */
+interface FileState {
+    uri: vscode.Uri;
+    original?: string;
+    current?: string;
+    /** 由 renamedFrom 重命名而来 */
+    renamedFrom?: vscode.Uri;
+    /** 已被重命名为其他文件，由重命名后的条目负责生成编辑 */
+    movedAway?: boolean;
+    labels: string[];
+}
+
+function fullRange(text: string): vscode.Range {
+    const lines = text.split(/\r?\n/);
+    return new vscode.Range(0, 0, lines.length - 1, lines[lines.length - 1].length);
+}
+
+/**
+ * 在内存中依次模拟一批文件操作，同一文件的多次修改会叠加，
+ * 最后合并为一个 WorkspaceEdit (每个文件最多一次文本替换)，以便原子地应用。
+ */
+export class BatchEditBuilder {
+    private readonly _files = new Map<string, FileState>();
+
+    constructor(private readonly _readText: (uri: vscode.Uri) => Promise<string | undefined>) { }
+
+    /** 批次中所有涉及的文件 */
+    public get uris(): vscode.Uri[] {
+        return Array.from(this._files.values()).map(f => f.uri);
+    }
+
+    /** 读取文件在批次中当前的内容 (包含之前操作的修改) */
+    public async read(uri: vscode.Uri): Promise<string | undefined> {
+        return (await this.state(uri)).current;
+    }
+
+    /** 写入文件内容，content 为 undefined 表示删除 */
+    public async write(uri: vscode.Uri, content: string | undefined, label: string) {
+        const state = await this.state(uri);
+        state.current = content;
+        state.movedAway = false;
+        state.labels.push(label);
+    }
+
+    public async rename(oldUri: vscode.Uri, newUri: vscode.Uri, label: string) {
+        const from = await this.state(oldUri);
+        this._files.set(newUri.toString(), {
+            uri: newUri,
+            original: from.original,
+            current: from.current,
+            // 批次中新建的文件被重命名时直接在新位置创建
+            renamedFrom: from.original === undefined ? undefined : from.renamedFrom ?? oldUri,
+            labels: [...from.labels, label]
+        });
+        from.current = undefined;
+        from.movedAway = true;
+    }
+
+    /** 生成 WorkspaceEdit，needsConfirmation 为 true 时在重构预览中逐项确认 */
+    public build(needsConfirmation: boolean): vscode.WorkspaceEdit {
+        const edit = new vscode.WorkspaceEdit();
+        for (const file of this._files.values()) {
+            if (file.movedAway) continue;
+            const metadata: vscode.WorkspaceEditEntryMetadata = { needsConfirmation, label: file.labels.join(', ') };
+
+            if (file.renamedFrom) {
+                edit.renameFile(file.renamedFrom, file.uri, { overwrite: false }, metadata);
+                if (file.current === undefined) {
+                    edit.deleteFile(file.uri, { ignoreIfNotExists: true }, metadata);
+                } else if (file.current !== file.original) {
+                    edit.replace(file.uri, fullRange(file.original ?? ''), file.current, metadata);
+                }
+            } else if (file.original === undefined && file.current !== undefined) {
+                edit.createFile(file.uri, { overwrite: false }, metadata);
+                edit.insert(file.uri, new vscode.Position(0, 0), file.current, metadata);
+            } else if (file.original !== undefined && file.current === undefined) {
+                edit.deleteFile(file.uri, { ignoreIfNotExists: true }, metadata);
+            } else if (file.original !== undefined && file.current !== undefined && file.current !== file.original) {
+                edit.replace(file.uri, fullRange(file.original), file.current, metadata);
+            }
+        }
+        return edit;
+    }
+
+    private async state(uri: vscode.Uri): Promise<FileState> {
+        let state = this._files.get(uri.toString());
+        if (!state) {
+            const text = await this._readText(uri);
+            state = { uri, original: text, current: text, labels: [] };
+            this._files.set(uri.toString(), state);
+        }
+        return state;
+    }
+}
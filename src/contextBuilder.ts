@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import { gitBranchDiffSection, gitChangesSection, gitLogSection } from './gitContext';
+import { t } from './i18n';
+import { toPromptPath } from './workspacePaths';
+
+export type ContextItemKind = 'file' | 'folder' | 'selection' | 'symbol' | 'structure' | 'openFiles' | 'gitChanges' | 'gitLog' | 'gitBranchDiff';
+
+/** 固定到上下文面板中的条目 */
+export interface ContextItem {
+    id: string;
+    kind: ContextItemKind;
+    /** 文件或文件夹的 URI (Uri.toString())，structure/openFiles 和 Git 条目没有 */
+    uri?: string;
+    /** 选区或符号的行号范围 (从 0 开始，包含两端) */
+    range?: { start: number; end: number };
+    /** 符号名称 */
+    name?: string;
+    /** gitBranchDiff 比较的分支 */
+    ref?: string;
+    /** gitLog 包含的提交数量 */
+    count?: number;
+}
+
+/** 上下文条目在预算内的实际情况，用于在面板中显示 */
+export interface ContextItemEstimate {
+    id: string;
+    kind: ContextItemKind;
+    label: string;
+    tokens: number;
+    truncated: boolean;
+    /** 整个条目被跳过的原因 (例如二进制文件、超出预算) */
+    skipped?: string;
+}
+
+export interface BuiltContext {
+    text: string;
+    items: ContextItemEstimate[];
+    totalTokens: number;
+    budget: number;
+}
+
+/** 新会话默认固定的条目：项目结构和已打开的文件 */
+export function defaultContextItems(): ContextItem[] {
+    return [
+        { id: Math.random().toString(36).substring(7), kind: 'structure' },
+        { id: Math.random().toString(36).substring(7), kind: 'openFiles' }
+    ];
+}
+
+/** 低于这个剩余预算时不再加入新的文件 */
+const MIN_SECTION_TOKENS = 50;
+const MAX_FOLDER_FILES = 200;
+
+/** 粗略估算 token 数：英文约 4 个字符 1 个 token，中日韩字符按 1 个字符 1 个 token 计算 */
+export function estimateTokens(text: string): number {
+    let wide = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) >= 0x2e80) wide++;
+    }
+    return Math.ceil((text.length - wide) / 4 + wide);
+}
+
+function isBinary(content: Uint8Array): boolean {
+    return content.subarray(0, 8000).includes(0);
+}
+
+function displayPath(uri: vscode.Uri): string {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    return folder ? toPromptPath(folder, uri.fsPath) : uri.fsPath;
+}
+
+/**
+ * 将行数组裁剪到预算以内。以 center 行为中心向两侧扩展 (光标所在文件保留光标附近的内容，
+ * 其余文件 center 为 0，即保留开头)，被省略的部分用标记行代替。
+ */
+function trimLines(lines: string[], firstLine: number, center: number, budget: number): { text: string, truncated: boolean } {
+    const full = lines.join('\n');
+    if (estimateTokens(full) <= budget) return { text: full, truncated: false };
+
+    let start = Math.min(Math.max(center - firstLine, 0), lines.length - 1);
+    let end = start;
+    let used = estimateTokens(lines[start]) + 1;
+    let growDown = true;
+    while (start > 0 || end < lines.length - 1) {
+        const next = growDown && end < lines.length - 1 ? end + 1 : start > 0 ? start - 1 : end + 1;
+        const cost = estimateTokens(lines[next]) + 1;
+        if (used + cost > budget) break;
+        used += cost;
+        if (next > end) end = next; else start = next;
+        growDown = !growDown;
+    }
+
+    const parts: string[] = [];
+    if (start > 0) parts.push(t('context.omittedLines', start));
+    parts.push(...lines.slice(start, end + 1));
+    if (end < lines.length - 1) parts.push(t('context.omittedLines', lines.length - 1 - end));
+    return { text: parts.join('\n'), truncated: true };
+}
+
+async function readLines(uri: vscode.Uri): Promise<string[] | undefined> {
+    const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (open) return open.getText().split(/\r?\n/);
+    const content = await vscode.workspace.fs.readFile(uri);
+    if (isBinary(content)) return undefined;
+    return Buffer.from(content).toString().split(/\r?\n/);
+}
+
+/** 生成一个文件 (或其中一段) 的上下文片段 */
+async function fileSection(uri: vscode.Uri, range: { start: number; end: number } | undefined, budget: number, header: string):
+    Promise<{ text: string, tokens: number, truncated: boolean, skipped?: string }> {
+    let lines: string[] | undefined;
+    try {
+        lines = await readLines(uri);
+    } catch (e: any) {
+        return { text: '', tokens: 0, truncated: false, skipped: e.message };
+    }
+    if (!lines) return { text: '', tokens: 0, truncated: false, skipped: t('context.binary') };
+
+    const firstLine = range ? range.start : 0;
+    const selected = range ? lines.slice(range.start, range.end + 1) : lines;
+    const editor = vscode.window.activeTextEditor;
+    const center = editor && editor.document.uri.toString() === uri.toString() ? editor.selection.active.line : firstLine;
+
+    const wrapper = `${header}\n\`\`\`\n\n\`\`\`\n`;
+    const available = budget - estimateTokens(wrapper);
+    if (available < MIN_SECTION_TOKENS) return { text: '', tokens: 0, truncated: false, skipped: t('context.overBudget') };
+
+    const trimmed = trimLines(selected, firstLine, center, available);
+    const text = `${header}\n\`\`\`\n${trimmed.text}\n\`\`\`\n`;
+    return { text, tokens: estimateTokens(text), truncated: trimmed.truncated };
+}
+
+function itemLabel(item: ContextItem): string {
+    switch (item.kind) {
+        case 'structure': return t('context.structure');
+        case 'openFiles': return t('context.openFiles');
+        case 'gitChanges': return t('context.gitChanges');
+        case 'gitLog': return t('context.gitLog', item.count ?? 0);
+        case 'gitBranchDiff': return t('context.gitBranchDiff', item.ref ?? '');
+    }
+    const path = displayPath(vscode.Uri.parse(item.uri!));
+    const lines = item.range ? `:${item.range.start + 1}-${item.range.end + 1}` : '';
+    if (item.kind === 'symbol') return `${path}#${item.name}${lines}`;
+    if (item.kind === 'folder') return `${path}/`;
+    return path + lines;
+}
+
+/**
+ * 按面板中的顺序依次加入各条目，在 token 预算内生成上下文文本。
+ * 超出预算的条目会被裁剪或跳过，二进制文件会被跳过。
+ */
+export async function buildContext(items: ContextItem[], budget: number, getStructure: () => Promise<string>): Promise<BuiltContext> {
+    let text = '';
+    let remaining = budget;
+    const estimates: ContextItemEstimate[] = [];
+
+    for (const item of items) {
+        const estimate: ContextItemEstimate = { id: item.id, kind: item.kind, label: itemLabel(item), tokens: 0, truncated: false };
+        estimates.push(estimate);
+        if (remaining < MIN_SECTION_TOKENS) {
+            estimate.skipped = t('context.overBudget');
+            continue;
+        }
+        let section = '';
+
+        if (item.kind === 'structure') {
+            const header = `${t('context.structure')}:\n`;
+            const trimmed = trimLines((await getStructure()).split('\n'), 0, 0, remaining - estimateTokens(header));
+            section = `${header}${trimmed.text}\n\n`;
+            estimate.truncated = trimmed.truncated;
+        } else if (item.kind === 'gitChanges' || item.kind === 'gitLog' || item.kind === 'gitBranchDiff') {
+            const part = item.kind === 'gitChanges' ? await gitChangesSection(remaining, estimateTokens)
+                : item.kind === 'gitLog' ? await gitLogSection(item.count!, remaining, estimateTokens)
+                : await gitBranchDiffSection(item.ref!, remaining, estimateTokens);
+            if (part.skipped) estimate.skipped = part.skipped;
+            section = part.text;
+            estimate.truncated = part.truncated;
+        } else if (item.kind === 'openFiles' || item.kind === 'folder') {
+            const uris = item.kind === 'openFiles'
+                ? vscode.workspace.textDocuments.filter(d => d.uri.scheme === 'file' && !d.fileName.includes('node_modules')).map(d => d.uri)
+                : await vscode.workspace.findFiles(new vscode.RelativePattern(vscode.Uri.parse(item.uri!), '**/*'), '**/node_modules/**', MAX_FOLDER_FILES);
+            let files = '';
+            let used = 0;
+            let skipped = 0;
+            for (const uri of uris) {
+                const part = await fileSection(uri, undefined, remaining - used, `File: ${displayPath(uri)}`);
+                if (part.skipped) {
+                    skipped++;
+                    continue;
+                }
+                files += `\n${part.text}`;
+                used += part.tokens;
+                estimate.truncated = estimate.truncated || part.truncated;
+            }
+            if (skipped > 0) estimate.truncated = true;
+            if (files) section = item.kind === 'openFiles' ? `${t('context.openFiles')}:\n${files}\n` : `${files}\n`;
+        } else {
+            const uri = vscode.Uri.parse(item.uri!);
+            const header = item.range
+                ? `File: ${displayPath(uri)} (lines ${item.range.start + 1}-${item.range.end + 1}${item.name ? `, ${item.name}` : ''})`
+                : `File: ${displayPath(uri)}`;
+            const part = await fileSection(uri, item.range, remaining, header);
+            if (part.skipped) estimate.skipped = part.skipped;
+            section = part.text ? `${part.text}\n` : '';
+            estimate.truncated = part.truncated;
+        }
+
+        if (!section.trim() && !estimate.skipped) {
+            estimate.skipped = t('context.empty');
+        }
+        estimate.tokens = estimateTokens(section);
+        remaining -= estimate.tokens;
+        text += section;
+    }
+
+    return { text, items: estimates, totalTokens: budget - remaining, budget };
+}
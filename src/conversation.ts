@@ -0,0 +1,106 @@
+import { t } from './i18n';
+import { parseToolCalls } from './parser';
+import { getToolCallSyntax } from './prompt';
+import { actionTarget } from './transcript';
+import { AgentAction, ChatMessage } from './types';
+
+/** 一轮对话：用户的需求、AI 的回复以及回复中各操作的结果 */
+interface Turn {
+    user?: string;
+    ai?: string;
+    actions: AgentAction[];
+}
+
+export interface Conversation {
+    text: string;
+    /** 包含的轮数 */
+    turns: number;
+    /** 因轮数或预算限制省略的较早轮数 */
+    omitted: number;
+}
+
+/** 当前对话线程的起点：最后一条标记为 threadStart 的消息，没有时为 0 */
+export function threadStartIndex(history: ChatMessage[]): number {
+    for (let i = history.length - 1; i >= 0; i--) {
+        if (history[i].threadStart) return i;
+    }
+    return 0;
+}
+
+/** 按用户消息划分轮次；没有对应用户消息的 AI 回复 (直接粘贴的回复) 单独作为一轮 */
+function splitTurns(messages: ChatMessage[]): Turn[] {
+    const turns: Turn[] = [];
+    let current: Turn | undefined;
+    for (const message of messages) {
+        if (message.role === 'user') {
+            current = { user: message.text, actions: [] };
+            turns.push(current);
+        } else if (message.role === 'ai') {
+            if (!current || current.ai !== undefined) {
+                current = { actions: [] };
+                turns.push(current);
+            }
+            current.ai = message.text;
+        } else if (message.role === 'action' && message.action && current) {
+            current.actions.push(message.action);
+        }
+    }
+    return turns;
+}
+
+/** 省略 AI 回复中的工具调用和代码块，操作的结果在回复后单独列出 */
+function compactReply(reply: string): string {
+    let text = reply.replace(/\r\n?/g, '\n');
+    for (const call of parseToolCalls(text, getToolCallSyntax()).sort((a, b) => b.start - a.start)) {
+        text = text.substring(0, call.start) + t('conversation.toolCall', call.type) + text.substring(call.end);
+    }
+    text = text.replace(/^([ \t]*)(`{3,}|~{3,})[^\n]*\n([\s\S]*?)^\1\2[ \t]*$/gm,
+        (block, indent: string, fence: string, body: string) => `${indent}${t('conversation.codeElided', body.split('\n').length - 1)}`);
+    return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function actionOutcome(action: AgentAction): string {
+    switch (action.status) {
+        case 'done': return t('conversation.applied');
+        case 'reverted': return t('conversation.reverted');
+        case 'rejected': return t('conversation.rejected');
+        case 'invalid': return t('conversation.invalid', (action.errors ?? []).join('; '));
+        default: return action.error ? t('conversation.failed', action.error) : t('conversation.notRun');
+    }
+}
+
+function formatTurn(turn: Turn, index: number): string {
+    const lines = [`### ${t('conversation.turn', index)}`];
+    if (turn.user !== undefined) lines.push(`${t('conversation.user')}: ${turn.user.trim()}`);
+    if (turn.ai !== undefined) lines.push(`${t('conversation.ai')}: ${compactReply(turn.ai)}`);
+    if (turn.actions.length > 0) {
+        lines.push(`${t('conversation.actions')}:`);
+        for (const action of turn.actions) {
+            lines.push(`- ${action.type} ${actionTarget(action)}: ${actionOutcome(action)}${action.edited ? t('conversation.edited') : ''}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * 生成当前线程中之前各轮对话的精简记录，从最近一轮开始向前加入，
+ * 直到达到 maxTurns 或 token 预算。返回的记录按时间顺序排列。
+ */
+export function buildConversation(history: ChatMessage[], maxTurns: number, budget: number, estimate: (text: string) => number): Conversation {
+    const turns = splitTurns(history.slice(threadStartIndex(history)));
+    const header = `${t('conversation.header')}:\n\n`;
+    const parts: string[] = [];
+    let used = estimate(header);
+    for (let i = turns.length - 1; i >= 0 && parts.length < maxTurns; i--) {
+        const part = formatTurn(turns[i], i + 1);
+        const cost = estimate(part) + 1;
+        if (used + cost > budget) break;
+        parts.unshift(part);
+        used += cost;
+    }
+    return {
+        text: parts.length > 0 ? header + parts.join('\n') : '',
+        turns: parts.length,
+        omitted: turns.length - parts.length
+    };
+}
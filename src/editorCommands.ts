@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { MessageKey, t } from './i18n';
+import { toPromptPath } from './workspacePaths';
+
+/** ask: 询问选中的代码；fix: 修复此处的问题；tests: 为所在函数编写测试 */
+export type EditorTask = 'ask' | 'fix' | 'tests';
+
+const SEVERITY_KEYS: Record<vscode.DiagnosticSeverity, MessageKey> = {
+    [vscode.DiagnosticSeverity.Error]: 'editor.severity.error',
+    [vscode.DiagnosticSeverity.Warning]: 'editor.severity.warning',
+    [vscode.DiagnosticSeverity.Information]: 'editor.severity.info',
+    [vscode.DiagnosticSeverity.Hint]: 'editor.severity.hint'
+};
+
+function displayPath(uri: vscode.Uri): string {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    return folder ? toPromptPath(folder, uri.fsPath) : uri.fsPath;
+}
+
+/** 查找包含指定位置的最内层符号 */
+async function findEnclosingSymbol(uri: vscode.Uri, position: vscode.Position): Promise<vscode.DocumentSymbol | undefined> {
+    let symbols: vscode.DocumentSymbol[] | undefined;
+    try {
+        symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>('vscode.executeDocumentSymbolProvider', uri);
+    } catch {
+        return undefined;
+    }
+    let found: vscode.DocumentSymbol | undefined;
+    let level = symbols ?? [];
+    while (true) {
+        // 只有 DocumentSymbol 有 children，旧的 SymbolInformation 结果没有层级
+        const next = level.find(s => s.range?.contains(position));
+        if (!next) return found;
+        found = next;
+        level = next.children ?? [];
+    }
+}
+
+/** 扩展到整行，诊断和符号按行比较 */
+function fullLines(document: vscode.TextDocument, range: vscode.Range): vscode.Range {
+    return new vscode.Range(range.start.line, 0, range.end.line, document.lineAt(range.end.line).text.length);
+}
+
+function formatDiagnostic(diagnostic: vscode.Diagnostic): string {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    const source = [diagnostic.source, code].filter(part => part !== undefined && part !== '').join(' ');
+    return t('editor.diagnostic', t(SEVERITY_KEYS[diagnostic.severity]), diagnostic.range.start.line + 1,
+        diagnostic.message.replace(/\s*\n\s*/g, ' '), source ? ` (${source})` : '');
+}
+
+/**
+ * 根据编辑器中的位置生成预填的 Prompt：任务说明、文件路径和行号、所在符号、代码以及此处的诊断信息。
+ * 没有选中内容时，fix 使用光标所在行的诊断范围，tests 和 ask 使用所在的符号，找不到时使用光标所在行。
+ */
+export async function buildEditorPrompt(task: EditorTask, document: vscode.TextDocument, selection: vscode.Range, diagnostics?: vscode.Diagnostic[]): Promise<string> {
+    const symbol = await findEnclosingSymbol(document.uri, selection.start);
+    const allDiagnostics = vscode.languages.getDiagnostics(document.uri);
+
+    let range = selection;
+    if (range.isEmpty) {
+        const atCursor = (diagnostics ?? allDiagnostics).filter(d => d.range.start.line <= range.start.line && d.range.end.line >= range.start.line);
+        if (task === 'fix' && atCursor.length > 0) {
+            range = atCursor.map(d => d.range).reduce((a, b) => a.union(b));
+        } else if (task !== 'fix' && symbol) {
+            range = symbol.range;
+        }
+    }
+    range = fullLines(document, range);
+
+    const relevant = diagnostics ?? allDiagnostics.filter(d => d.range.intersection(range) !== undefined);
+    const start = range.start.line + 1;
+    const end = range.end.line + 1;
+
+    const parts: string[] = [];
+    switch (task) {
+        case 'ask': parts.push(t('editor.instruction.ask')); break;
+        case 'fix': parts.push(t('editor.instruction.fix')); break;
+        case 'tests': parts.push(t('editor.instruction.tests', symbol ? symbol.name : t('editor.thisCode'))); break;
+    }
+    parts.push('');
+    parts.push(t('editor.location', displayPath(document.uri), start, end));
+    if (symbol) {
+        parts.push(t('editor.symbol', symbol.name, vscode.SymbolKind[symbol.kind], symbol.range.start.line + 1, symbol.range.end.line + 1));
+    }
+    parts.push(`\`\`\`${document.languageId}`, document.getText(range), '```');
+    if (relevant.length > 0) {
+        parts.push(t('editor.diagnostics'));
+        parts.push(...[...relevant].sort((a, b) => a.severity - b.severity || a.range.start.line - b.range.start.line).map(formatDiagnostic));
+    }
+    return parts.join('\n') + '\n';
+}
+
+/** 在错误诊断上提供 "使用 Only Agent 修复" 的快速修复 */
+export class FixProblemCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    public provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const errors = context.diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Error);
+        if (errors.length === 0) return [];
+
+        const action = new vscode.CodeAction(t('editor.fixAction'), vscode.CodeActionKind.QuickFix);
+        action.diagnostics = errors;
+        action.command = {
+            command: 'only-agent.fixProblem',
+            title: t('editor.fixAction'),
+            arguments: [document.uri, errors.map(d => d.range).reduce((a, b) => a.union(b)), errors]
+        };
+        return [action];
+    }
+}
@@ -1,28 +1,78 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 import * as path from 'path';
+import { AuditEvent, AuditLog, AuditRecord } from './auditLog';
+import { BatchEditBuilder } from './batchEdit';
+import { BuiltContext, ContextItem, buildContext, defaultContextItems, estimateTokens } from './contextBuilder';
+import { buildConversation } from './conversation';
+import { EditorTask, FixProblemCodeActionProvider, buildEditorPrompt } from './editorCommands';
+import { fetchUrl } from './fetcher';
+import { listBranches } from './gitContext';
+import { getUiLanguage, t, webviewStrings } from './i18n';
+import { BlockMatch, findMatches, getReplacement } from './matcher';
+import { pickMatch } from './matchPicker';
+import { API_KEY_SECRET, ChatCancelledError, getEndpoint, getProviderSettings, setApiKey, streamChat } from './modelProvider';
+import { applyFilePatch, parseUnifiedDiff } from './patch';
+import { ActionEdit, applyActionEdit, parseToolCalls, toAgentAction } from './parser';
+import { ActionPreviewProvider } from './preview';
+import { buildProjectTree } from './projectTree';
+import { buildPrompt, getEnabledActions, getToolCallSyntax, loadProjectRules } from './prompt';
+import { SessionStore } from './sessions';
+import { evaluateShellCommand } from './shellPolicy';
+import { ShellResult, ShellRunner, formatShellResult } from './shellRunner';
+import { FileSnapshot, MAX_FOLDER_SNAPSHOT_FILES, restoreSnapshot, takeFolderSnapshot, takeSnapshot } from './snapshots';
+import { listTool, readFileTool, searchTool } from './tools';
+import { actionTarget, parseTranscript, toJsonTranscript, toMarkdownTranscript } from './transcript';
+import { AgentAction, ChatMessage, ContextEntry } from './types';
+import { DiagnosticsBaseline, buildFixupInstruction, captureBaseline, openForDiagnostics, summarizeReport, verifyChanges } from './verification';
+import { resolveWorkspacePath, resolveWritablePath } from './workspacePaths';
 
 export function activate(context: vscode.ExtensionContext) {
-    const provider = new ManualAIChatViewProvider(context.extensionUri);
+    const previewProvider = new ActionPreviewProvider();
+    const shellRunner = new ShellRunner();
+    const provider = new ManualAIChatViewProvider(context.extensionUri, context.workspaceState, context.secrets, previewProvider, shellRunner, new AuditLog());
     context.subscriptions.push(
+        previewProvider,
+        shellRunner,
+        vscode.workspace.registerTextDocumentContentProvider(ActionPreviewProvider.scheme, previewProvider),
         vscode.window.registerWebviewViewProvider('Only-Agent.chatView', provider),
-        vscode.commands.registerCommand('only-agent.clearHistory', () => provider.clearChat())
+        vscode.commands.registerCommand('only-agent.clearHistory', () => provider.clearChat()),
+        vscode.commands.registerCommand('only-agent.newSession', () => provider.newSession()),
+        vscode.commands.registerCommand('only-agent.switchSession', () => provider.pickSession()),
+        vscode.commands.registerCommand('only-agent.renameSession', () => provider.renameSession()),
+        vscode.commands.registerCommand('only-agent.newThread', () => provider.startThread()),
+        vscode.commands.registerCommand('only-agent.deleteSession', () => provider.deleteSession()),
+        vscode.commands.registerCommand('only-agent.exportMarkdown', () => provider.exportTranscript('markdown')),
+        vscode.commands.registerCommand('only-agent.exportJson', () => provider.exportTranscript('json')),
+        vscode.commands.registerCommand('only-agent.importTranscript', () => provider.importTranscript()),
+        vscode.commands.registerCommand('only-agent.askAboutSelection', (uri?: vscode.Uri) => provider.prefillFromEditor('ask', uri)),
+        vscode.commands.registerCommand('only-agent.fixProblem', (uri?: vscode.Uri, range?: vscode.Range, diagnostics?: vscode.Diagnostic[]) =>
+            provider.prefillFromEditor('fix', uri, range, diagnostics)),
+        vscode.commands.registerCommand('only-agent.writeTests', (uri?: vscode.Uri) => provider.prefillFromEditor('tests', uri)),
+        vscode.commands.registerCommand('only-agent.setApiKey', () => setApiKey(context.secrets)),
+        vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, new FixProblemCodeActionProvider(), {
+            providedCodeActionKinds: FixProblemCodeActionProvider.providedCodeActionKinds
+        })
     );
 }
 
-interface AgentAction {
-    id: string;
-    type: 'MODIFY' | 'CREATE' | 'DELETE' | 'SHELL' | 'FETCH';
-    path?: string;
-    content?: string;
-    before?: string;
-    command?: string;
-    url?: string;
+/** 修改工作区文件的操作类型，原子模式下合并为一个 WorkspaceEdit */
+const FILE_ACTION_TYPES: AgentAction['type'][] = ['MODIFY', 'CREATE', 'DELETE', 'PATCH', 'RENAME', 'MOVE'];
+
+/** 页面上 "包含上下文" 的选项 */
+interface PromptOptions {
+    includeShellOutput: boolean;
+    /** 附加当前线程中之前各轮对话的精简记录 */
+    includeConversation?: boolean;
 }
 
-interface ChatMessage {
-    role: 'user' | 'ai' | 'system' | 'error' | 'action';
-    text: string;
-    action?: AgentAction;
+/** PATCH 中单个文件的计算结果，uri 为空表示删除，oldUri 为空表示新建 */
+interface PatchFileResult {
+    displayPath: string;
+    oldUri?: vscode.Uri;
+    uri?: vscode.Uri;
+    original?: string;
+    result?: string;
 }
 
 class ManualAIChatViewProvider implements vscode.WebviewViewProvider {
@@ -30,24 +80,83 @@ class ManualAIChatViewProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
     private _pendingActions: AgentAction[] = [];
     private _chatHistory: ChatMessage[] = [];
+    private _contextBuffer: ContextEntry[] = [];
+    private _shellResults: ShellResult[] = [];
+    private _rejections: string[] = [];
+    private _contextItems: ContextItem[] = [];
+    /** 上下文面板估算的缓存，条目或预算变化 (key 不同) 或工作区文件变化后失效 */
+    private _contextEstimate?: { key: string, built: BuiltContext };
+    /** 等待页面加载后填入输入框的 Prompt */
+    private _pendingPrompt?: string;
+    /** 正在进行的模型请求，用于取消 */
+    private _sendCancellation?: vscode.CancellationTokenSource;
+    /** 已执行操作的文件快照，按执行顺序排列，用于撤销 */
+    private _snapshots = new Map<string, FileSnapshot[]>();
+    /** 各批次中文件在修改前的诊断，批次的文件操作全部执行后用于检查 */
+    private _baselines = new Map<string, DiagnosticsBaseline>();
+    private readonly _sessions: SessionStore;
 
-    constructor(private readonly _extensionUri: vscode.Uri) { 
-        this._chatHistory.push({ 
-            role: 'system', 
-            text: '欢迎使用 Manual AI Agent。<br>1. 输入需求并点击 "Copy Prompt"。<br>2. 粘贴 AI 回复并点击 "Apply Changes"。' 
-        });
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        workspaceState: vscode.Memento,
+        private readonly _secrets: vscode.SecretStorage,
+        private readonly _previewProvider: ActionPreviewProvider,
+        private readonly _shellRunner: ShellRunner,
+        private readonly _auditLog: AuditLog
+    ) { 
+        this._sessions = new SessionStore(workspaceState, () => ({ role: 'system', text: t('welcome') }));
+        this.loadSession();
     }
 
     public resolveWebviewView(webviewView: vscode.WebviewView) {
         this._view = webviewView;
+        this.updateViewDescription();
         webviewView.webview.options = { enableScripts: true, localResourceRoots: [this._extensionUri] };
         webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
+        // 界面语言变化时重新生成页面，页面加载后会通过 'ready' 恢复历史记录
+        const configListener = vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('only-agent.uiLanguage') || e.affectsConfiguration('only-agent.provider.mode')) {
+                webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+            } else if (e.affectsConfiguration('only-agent.contextTokenBudget')) {
+                this.postContextItems();
+            }
+        });
+        // 文件、打开的编辑器或光标位置变化后，上下文估算需要重新计算
+        const invalidate = () => { this._contextEstimate = undefined; };
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        const contextListeners = [
+            watcher,
+            watcher.onDidCreate(invalidate),
+            watcher.onDidChange(invalidate),
+            watcher.onDidDelete(invalidate),
+            vscode.workspace.onDidChangeTextDocument(invalidate),
+            vscode.workspace.onDidOpenTextDocument(invalidate),
+            vscode.workspace.onDidCloseTextDocument(invalidate),
+            vscode.window.onDidChangeActiveTextEditor(invalidate),
+            vscode.window.onDidChangeTextEditorSelection(invalidate)
+        ];
+        // 重新显示时刷新上下文估算，没有变化时使用缓存
+        const visibilityListener = webviewView.onDidChangeVisibility(() => {
+            if (webviewView.visible) this.postContextItems();
+        });
+        webviewView.onDidDispose(() => {
+            configListener.dispose();
+            visibilityListener.dispose();
+            contextListeners.forEach(listener => listener.dispose());
+        });
+
         webviewView.webview.onDidReceiveMessage(async (data) => {
             switch (data.type) {
                 case 'copyPrompt': 
                     await this.handleCopyPrompt(data.inputValue, data.options); 
                     break;
+                case 'send':
+                    await this.handleSend(data.inputValue, data.options);
+                    break;
+                case 'cancelSend':
+                    this._sendCancellation?.cancel();
+                    break;
                 case 'applyChange': 
                     await this.parseAndConfirmActions(data.inputValue); 
                     break;
@@ -57,559 +166,1422 @@ class ManualAIChatViewProvider implements vscode.WebviewViewProvider {
                 case 'approveAll': 
                     await this.handleApproveAll(); 
                     break;
+                case 'previewAction':
+                    await this.previewAction(data.actionId);
+                    break;
+                case 'revertAction':
+                    await this.revertAction(data.actionId);
+                    break;
+                case 'rejectAction':
+                    await this.rejectActions([data.actionId]);
+                    break;
+                case 'rejectAll':
+                    await this.rejectActions(this._pendingActions.map(a => a.id));
+                    break;
+                case 'editAction':
+                    await this.editAction(data.actionId, data.changes);
+                    break;
+                case 'newThread':
+                    this.startThread(data.index);
+                    break;
+                case 'revertBatch':
+                    await this.revertBatch(data.batchId);
+                    break;
+                case 'copyFixupPrompt':
+                    await this.copyFixupPrompt(data.reportId);
+                    break;
+                case 'openExternal': {
+                    const url = this.findAction(data.actionId)?.url;
+                    if (url) vscode.env.openExternal(vscode.Uri.parse(url));
+                    break;
+                }
+                case 'addContextItem':
+                    await this.addContextItem(data.kind);
+                    break;
+                case 'removeContextItem':
+                    this._contextItems = this._contextItems.filter(item => item.id !== data.id);
+                    this.saveSession();
+                    await this.postContextItems();
+                    break;
+                case 'clearContextBuffer':
+                    this._contextBuffer = [];
+                    this.saveSession();
+                    this.postContextBuffer();
+                    break;
                 case 'ready':
                     this.restoreHistory();
+                    this.postPendingPrompt();
                     break;
             }
         });
     }
 
     public clearChat() {
+        for (const message of this._chatHistory) {
+            if (message.action) this._snapshots.delete(message.action.id);
+        }
         this._chatHistory = [];
         this._pendingActions = [];
+        this._contextBuffer = [];
+        this._shellResults = [];
         this._view?.webview.postMessage({ type: 'clearChat' });
-        this._chatHistory.push({ role: 'system', text: '🗑️ 历史记录已清空。' });
+        this._chatHistory.push({ role: 'system', text: t('history.cleared') });
+        this.saveSession();
+        this.restoreHistory();
+    }
+
+    public async newSession() {
+        const name = await vscode.window.showInputBox({ prompt: t('session.newPrompt'), value: t('session.newValue', this._sessions.sessions.length + 1) });
+        if (!name) return;
+        this._sessions.create(name);
+        this.loadSession();
+        this.restoreHistory();
+    }
+
+    /** 会话选择器：切换会话，或通过条目按钮重命名/删除 */
+    public async pickSession() {
+        const renameButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('edit'), tooltip: t('session.rename') };
+        const deleteButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('trash'), tooltip: t('session.delete') };
+        type SessionItem = vscode.QuickPickItem & { sessionId?: string };
+
+        const quickPick = vscode.window.createQuickPick<SessionItem>();
+        quickPick.placeholder = t('session.pickPlaceholder');
+        const refreshItems = () => {
+            quickPick.items = [
+                { label: t('session.new') },
+                ...this._sessions.sessions.map(s => ({
+                    label: s.id === this._sessions.active.id ? `$(check) ${s.name}` : s.name,
+                    description: new Date(s.createdAt).toLocaleString(),
+                    detail: t('session.replyCount', s.history.filter(m => m.role === 'ai').length),
+                    sessionId: s.id,
+                    buttons: [renameButton, deleteButton]
+                }))
+            ];
+        };
+        refreshItems();
+
+        quickPick.onDidTriggerItemButton(async e => {
+            const id = e.item.sessionId!;
+            if (e.button === renameButton) {
+                quickPick.hide();
+                await this.renameSession(id);
+            } else {
+                await this.deleteSession(id);
+                refreshItems();
+            }
+        });
+        quickPick.onDidAccept(async () => {
+            const item = quickPick.selectedItems[0];
+            quickPick.hide();
+            if (!item) return;
+            if (!item.sessionId) {
+                await this.newSession();
+            } else if (item.sessionId !== this._sessions.active.id) {
+                this._sessions.switchTo(item.sessionId);
+                this.loadSession();
+                this.restoreHistory();
+            }
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    }
+
+    public async renameSession(id = this._sessions.active.id) {
+        const session = this._sessions.sessions.find(s => s.id === id);
+        if (!session) return;
+        const name = await vscode.window.showInputBox({ prompt: t('session.renamePrompt'), value: session.name });
+        if (!name) return;
+        this._sessions.rename(id, name);
+        this.updateViewDescription();
+    }
+
+    public async deleteSession(id = this._sessions.active.id) {
+        const session = this._sessions.sessions.find(s => s.id === id);
+        if (!session) return;
+        const deleteLabel = t('session.delete');
+        const confirm = await vscode.window.showWarningMessage(t('session.deleteConfirm', session.name), { modal: true }, deleteLabel);
+        if (confirm !== deleteLabel) return;
+
+        const wasActive = id === this._sessions.active.id;
+        for (const message of session.history) {
+            if (message.action) this._snapshots.delete(message.action.id);
+        }
+        this._sessions.delete(id);
+        if (wasActive) {
+            this.loadSession();
+            this.restoreHistory();
+        }
+    }
+
+    /**
+     * 开始新的对话线程：index 指定的消息成为线程的起点，省略时从现在开始。
+     * 线程起点之前的消息不再加入 Prompt 的对话记录，但仍保留在历史中。
+     */
+    public startThread(index?: number) {
+        for (const message of this._chatHistory) {
+            message.threadStart = undefined;
+        }
+        const start = index !== undefined ? this._chatHistory[index] : undefined;
+        if (start) {
+            start.threadStart = true;
+            this.addToHistory({ role: 'system', text: t('thread.startedAt') });
+        } else {
+            this.addToHistory({ role: 'system', text: t('thread.started'), threadStart: true });
+        }
+        // 重新渲染以更新线程起点的分隔线
         this.restoreHistory();
     }
 
+    /**
+     * 从编辑器命令或快速修复预填 Prompt。uri 为空时使用当前编辑器，
+     * range 为空时使用当前选区 (由其他编辑器的右键菜单调用时从文件开头开始)。
+     */
+    public async prefillFromEditor(task: EditorTask, uri?: vscode.Uri, range?: vscode.Range, diagnostics?: vscode.Diagnostic[]) {
+        const editor = vscode.window.activeTextEditor;
+        const document = uri instanceof vscode.Uri && uri.toString() !== editor?.document.uri.toString()
+            ? await vscode.workspace.openTextDocument(uri)
+            : editor?.document;
+        if (!document) {
+            vscode.window.showWarningMessage(t('context.noEditor'));
+            return;
+        }
+        const selection = range ?? (editor?.document === document ? editor.selection : new vscode.Range(0, 0, 0, 0));
+        this._pendingPrompt = await buildEditorPrompt(task, document, selection, diagnostics);
+
+        // 视图已显示时直接填入；否则显示视图后页面重新加载，在 'ready' 时填入
+        const visible = this._view?.visible;
+        await vscode.commands.executeCommand(`${ManualAIChatViewProvider.viewType}.focus`);
+        if (visible) this.postPendingPrompt();
+    }
+
+    private postPendingPrompt() {
+        if (!this._view || this._pendingPrompt === undefined) return;
+        this._view.webview.postMessage({ type: 'setPrompt', text: this._pendingPrompt });
+        this._pendingPrompt = undefined;
+    }
+
+    /** 将当前会话导出为 Markdown (便于阅读或附加到 PR) 或 JSON (可以重新导入) */
+    public async exportTranscript(format: 'markdown' | 'json') {
+        const session = this._sessions.active;
+        const extension = format === 'markdown' ? 'md' : 'json';
+        const fileName = `${session.name.replace(/[\\/:*?"<>|]/g, '_')}.${extension}`;
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+            filters: format === 'markdown' ? { Markdown: ['md'] } : { JSON: ['json'] }
+        });
+        if (!uri) return;
+        try {
+            const text = format === 'markdown' ? toMarkdownTranscript(session) : toJsonTranscript(session);
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(text, 'utf8'));
+            vscode.window.showInformationMessage(t('transcript.saved', vscode.workspace.asRelativePath(uri)));
+        } catch (e: any) {
+            vscode.window.showErrorMessage(t('transcript.exportFailed', e.message));
+        }
+    }
+
+    /**
+     * 将导出的 JSON 对话记录导入为新会话。操作卡片使用新的 ID，避免与原会话的快照冲突；
+     * 导入的已执行操作没有快照，不能撤销；待批准的操作重新校验通过后仍可批准。
+     */
+    public async importTranscript() {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            filters: { JSON: ['json'] }
+        });
+        if (!uris || uris.length === 0) return;
+        try {
+            const transcript = parseTranscript(Buffer.from(await vscode.workspace.fs.readFile(uris[0])).toString('utf8'));
+            const name = transcript.name || path.basename(uris[0].fsPath, '.json');
+            const session = this._sessions.create(t('transcript.importedName', name));
+            session.history = transcript.history.map(message => message.action
+                ? { ...message, action: { ...message.action, id: Math.random().toString(36).substring(7) } }
+                : message);
+            session.history.push({ role: 'system', text: t('transcript.imported', vscode.workspace.asRelativePath(uris[0]), transcript.history.length) });
+            this._sessions.save();
+            this.loadSession();
+            this.restoreHistory();
+        } catch (e: any) {
+            vscode.window.showErrorMessage(t('transcript.importFailed', e.message));
+        }
+    }
+
+    /** 从当前活动会话载入历史，待批准操作从历史中的操作卡片恢复 */
+    private loadSession() {
+        this._chatHistory = this._sessions.active.history;
+        this._contextBuffer = this._sessions.active.contextBuffer ?? [];
+        this._shellResults = this._sessions.active.shellResults ?? [];
+        this._rejections = this._sessions.active.rejections ?? [];
+        this._contextItems = this._sessions.active.contextItems ?? defaultContextItems();
+        this._pendingActions = this._chatHistory
+            .filter(m => m.action && (m.action.status ?? 'pending') === 'pending')
+            .map(m => m.action!);
+        this.updateViewDescription();
+    }
+
+    private saveSession() {
+        this._sessions.active.history = this._chatHistory;
+        this._sessions.active.contextBuffer = this._contextBuffer;
+        this._sessions.active.shellResults = this._shellResults;
+        this._sessions.active.rejections = this._rejections;
+        this._sessions.active.contextItems = this._contextItems;
+        this._sessions.save();
+    }
+
+    private updateViewDescription() {
+        if (this._view) {
+            this._view.description = this._sessions.active.name;
+        }
+    }
+
     private restoreHistory() {
         if (this._view) {
-            this._view.webview.postMessage({ type: 'restoreHistory', history: this._chatHistory });
-            if (this._pendingActions.length > 0) {
-                this._view.webview.postMessage({ type: 'toggleApproveAll', show: true });
+            this._view.webview.postMessage({ type: 'restoreHistory', history: this._chatHistory, revertible: Array.from(this._snapshots.keys()) });
+            this.postPendingState();
+            this.postContextBuffer();
+            this.postContextItems();
+        }
+    }
+
+    private postContextBuffer() {
+        this._view?.webview.postMessage({ type: 'contextBuffer', titles: this._contextBuffer.map(e => e.title) });
+    }
+
+    private getContextBudget(): number {
+        return vscode.workspace.getConfiguration('only-agent').get<number>('contextTokenBudget', 32000);
+    }
+
+    private contextEstimateKey(): string {
+        return JSON.stringify([this._contextItems, this.getContextBudget()]);
+    }
+
+    /** 将上下文面板中各条目的 token 估算发送给页面，上下文没有变化时使用上次的结果 */
+    private async postContextItems() {
+        if (!this._view) return;
+        const key = this.contextEstimateKey();
+        let built = this._contextEstimate?.key === key ? this._contextEstimate.built : undefined;
+        if (!built) {
+            built = await buildContext(this._contextItems, this.getContextBudget(), () => buildProjectTree());
+            this._contextEstimate = { key, built };
+        }
+        this.postBuiltContext(built);
+    }
+
+    private postBuiltContext(built: BuiltContext) {
+        this._view?.webview.postMessage({ type: 'contextItems', items: built.items, total: built.totalTokens, budget: built.budget });
+    }
+
+    /** 向上下文面板加入条目：当前文件、选区、文件/文件夹、符号、项目结构、已打开的文件或 Git 信息 */
+    private async addContextItem(kind: string) {
+        const newId = () => Math.random().toString(36).substring(7);
+        const added: ContextItem[] = [];
+        const editor = vscode.window.activeTextEditor;
+
+        switch (kind) {
+            case 'structure':
+            case 'openFiles':
+            case 'gitChanges':
+                if (!this._contextItems.some(item => item.kind === kind)) added.push({ id: newId(), kind });
+                break;
+            case 'currentFile':
+                if (!editor) {
+                    vscode.window.showWarningMessage(t('context.noEditor'));
+                    return;
+                }
+                added.push({ id: newId(), kind: 'file', uri: editor.document.uri.toString() });
+                break;
+            case 'selection':
+                if (!editor || editor.selection.isEmpty) {
+                    vscode.window.showWarningMessage(t(editor ? 'context.noSelection' : 'context.noEditor'));
+                    return;
+                }
+                added.push({
+                    id: newId(),
+                    kind: 'selection',
+                    uri: editor.document.uri.toString(),
+                    range: { start: editor.selection.start.line, end: editor.selection.end.line }
+                });
+                break;
+            case 'files': {
+                const uris = await vscode.window.showOpenDialog({
+                    canSelectFiles: true,
+                    canSelectFolders: true,
+                    canSelectMany: true,
+                    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                    openLabel: t('context.pickFiles')
+                });
+                for (const uri of uris ?? []) {
+                    const stat = await vscode.workspace.fs.stat(uri);
+                    added.push({ id: newId(), kind: stat.type & vscode.FileType.Directory ? 'folder' : 'file', uri: uri.toString() });
+                }
+                break;
+            }
+            case 'gitLog': {
+                const count = await vscode.window.showInputBox({
+                    prompt: t('context.logCountPrompt'),
+                    value: '10',
+                    validateInput: value => /^\d+$/.test(value) && +value >= 1 && +value <= 200 ? undefined : t('context.logCountInvalid')
+                });
+                if (!count) return;
+                added.push({ id: newId(), kind: 'gitLog', count: +count });
+                break;
+            }
+            case 'gitBranchDiff': {
+                let branches: string[];
+                try {
+                    branches = await listBranches();
+                } catch (e: any) {
+                    vscode.window.showWarningMessage(e.message);
+                    return;
+                }
+                const ref = await vscode.window.showQuickPick(branches, { placeHolder: t('context.pickBranch') });
+                if (!ref) return;
+                added.push({ id: newId(), kind: 'gitBranchDiff', ref });
+                break;
+            }
+            case 'symbol': {
+                if (!editor) {
+                    vscode.window.showWarningMessage(t('context.noEditor'));
+                    return;
+                }
+                const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>('vscode.executeDocumentSymbolProvider', editor.document.uri) ?? [];
+                type SymbolItem = vscode.QuickPickItem & { symbol: vscode.DocumentSymbol };
+                const items: SymbolItem[] = [];
+                const collect = (list: vscode.DocumentSymbol[], depth: number) => {
+                    for (const symbol of list) {
+                        items.push({
+                            label: `${'  '.repeat(depth)}${symbol.name}`,
+                            description: `${vscode.SymbolKind[symbol.kind]} ${symbol.range.start.line + 1}-${symbol.range.end.line + 1}`,
+                            symbol
+                        });
+                        collect(symbol.children ?? [], depth + 1);
+                    }
+                };
+                collect(symbols, 0);
+                if (items.length === 0) {
+                    vscode.window.showWarningMessage(t('context.noSymbols'));
+                    return;
+                }
+                const picked = await vscode.window.showQuickPick(items, { placeHolder: t('context.pickSymbol'), canPickMany: true });
+                for (const item of picked ?? []) {
+                    added.push({
+                        id: newId(),
+                        kind: 'symbol',
+                        uri: editor.document.uri.toString(),
+                        range: { start: item.symbol.range.start.line, end: item.symbol.range.end.line },
+                        name: item.symbol.name
+                    });
+                }
+                break;
             }
         }
+
+        if (added.length === 0) return;
+        this._contextItems.push(...added);
+        this.saveSession();
+        await this.postContextItems();
+    }
+
+    /** 将工具结果加入上下文缓冲区，下一次 Copy Prompt 时自动附加 */
+    private queueContext(actionId: string, title: string, text: string) {
+        this._contextBuffer.push({ actionId, title, text });
+        this.postContextBuffer();
+    }
+
+    /** 记录到工作区的审计日志 */
+    private audit(event: AuditEvent, action?: AgentAction, details?: Partial<AuditRecord>) {
+        this._auditLog.record(this._sessions.active.id, event, action, details);
     }
 
     private addToHistory(message: ChatMessage) {
         this._chatHistory.push(message);
-        this._view?.webview.postMessage({ type: 'addMessage', message });
+        this.saveSession();
+        this._view?.webview.postMessage({ type: 'addMessage', message, index: this._chatHistory.length - 1 });
     }
 
     private async handleApproveAll() {
-        const safeActions = this._pendingActions.filter(a => a.type !== 'SHELL');
-        const skippedCount = this._pendingActions.length - safeActions.length;
+        const safeActions = this._pendingActions.filter(a => this.canAutoApprove(a));
+        const skipped = this._pendingActions.filter(a => !safeActions.includes(a));
+        for (const action of skipped) {
+            const decision = evaluateShellCommand(action.command ?? '');
+            action.policy = decision;
+            this.audit(decision.verdict === 'deny' ? 'denied' : 'skipped', action);
+            this.addToHistory({
+                role: 'system',
+                text: decision.verdict === 'deny'
+                    ? t('policy.denied', action.command ?? '', decision.rule!)
+                    : t('policy.skipped', action.command ?? '', t(`policy.risk.${decision.risk}`), decision.reasons.length > 0 ? `: ${decision.reasons.join(', ')}` : '')
+            });
+        }
         
         const actionIds = safeActions.map(a => a.id);
+        const batched = new Set<string>();
+        if (vscode.workspace.getConfiguration('only-agent').get<boolean>('approveAll.atomic', false)) {
+            const fileActions: AgentAction[] = [];
+            for (const action of safeActions) {
+                if (await this.canBatch(action)) fileActions.push(action);
+            }
+            if (fileActions.length > 0 && !await this.applyBatch(fileActions)) return;
+            fileActions.forEach(a => batched.add(a.id));
+        }
         for (const id of actionIds) {
-            await this.executeAction(id);
+            // 原子模式下文件操作已经执行 (或被用户跳过)，这里只会执行剩余的操作
+            if (!batched.has(id) && this._pendingActions.some(a => a.id === id)) await this.executeAction(id, true);
         }
         
-        if (skippedCount > 0) {
-            this.addToHistory({ role: 'system', text: `⚠️ 已跳过 ${skippedCount} 个终端命令 (Approve All 不包含终端指令)。` });
+        if (skipped.length > 0) {
+            this.addToHistory({ role: 'system', text: t('approveAll.skippedShell', skipped.length) });
         }
-
-        const remaining = this._pendingActions.filter(a => !actionIds.includes(a.id));
-        if (remaining.length === 0 || remaining.every(a => a.type === 'SHELL')) {
-            this._view?.webview.postMessage({ type: 'toggleApproveAll', show: false });
+        for (const batchId of new Set(safeActions.map(a => a.batchId))) {
+            // 执行失败而仍待批准的操作不再等待
+            await this.verifyBatch(batchId, true);
         }
+        this.postPendingState();
     }
 
-    private async getProjectStructure(): Promise<string> {
-        const folders = vscode.workspace.workspaceFolders;
-        if (!folders) return "No workspace opened.";
-        let structure = "";
-        for (const folder of folders) {
-            structure += `Project: ${folder.name}\n`;
-            const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/*'), '**/node_modules/**', 100);
-            files.forEach(f => structure += `- ${path.relative(folder.uri.fsPath, f.fsPath)}\n`);
+    /** 原子模式下能否合并到一个 WorkspaceEdit：文件夹的删除和移动需要单独执行 */
+    private async canBatch(action: AgentAction): Promise<boolean> {
+        if (!FILE_ACTION_TYPES.includes(action.type) || (action.type === 'DELETE' && action.recursive)) return false;
+        if (action.type !== 'RENAME' && action.type !== 'MOVE') return true;
+        try {
+            return !await this.isDirectory(this.resolveActionUri(action.path!));
+        } catch {
+            // 路径无效时由 applyBatch 报告错误
+            return true;
         }
-        return structure;
     }
 
-    private async handleCopyPrompt(userInstruction: string, options: { includeStructure: boolean, includeOpenFiles: boolean }) {
-        let contextText = "";
-        let logMsg = "✅ 已复制 Prompt";
+    /**
+     * 将一批文件操作合并为一个 WorkspaceEdit 并在重构预览中确认后应用。
+     * 任何一个操作校验失败或用户取消时都不会修改任何文件；
+     * 用户选择不覆盖已存在文件的 CREATE 保持待批准，其余操作照常应用。返回是否已应用。
+     */
+    private async applyBatch(batch: AgentAction[]): Promise<boolean> {
+        const builder = new BatchEditBuilder(uri => this.readFileText(uri));
+        const touched = new Map<string, vscode.Uri[]>();
+        const actions: AgentAction[] = [];
+
+        for (const action of batch) {
+            const uris: vscode.Uri[] = [];
+            touched.set(action.id, uris);
+            try {
+                switch (action.type) {
+                    case 'MODIFY': {
+                        const uri = this.resolveActionUri(action.path!);
+                        const text = await builder.read(uri);
+                        if (text === undefined) throw new Error(t('action.fileNotFound', action.path!));
+                        const match = await this.resolveModifyMatch(action, uri, text);
+                        if (!match) return false;
+                        const replacement = getReplacement(text, match, action.before!, action.content!);
+                        await builder.write(uri, text.substring(0, match.start) + replacement + text.substring(match.end), `MODIFY ${action.path}`);
+                        uris.push(uri);
+                        break;
+                    }
+                    case 'CREATE': {
+                        const uri = this.resolveActionUri(action.path!);
+                        if (await builder.read(uri) !== undefined && !await this.confirmOverwrite(action)) {
+                            this.audit('cancelled', action);
+                            continue;
+                        }
+                        await builder.write(uri, action.content || '', `CREATE ${action.path}`);
+                        uris.push(uri);
+                        break;
+                    }
+                    case 'DELETE': {
+                        const uri = this.resolveActionUri(action.path!);
+                        if (await builder.read(uri) === undefined) throw new Error(t('action.fileNotFound', action.path!));
+                        await builder.write(uri, undefined, `DELETE ${action.path}`);
+                        uris.push(uri);
+                        break;
+                    }
+                    case 'PATCH':
+                        for (const filePatch of parseUnifiedDiff(action.content ?? '')) {
+                            const oldUri = filePatch.oldPath ? this.resolveActionUri(filePatch.oldPath) : undefined;
+                            const uri = filePatch.newPath ? this.resolveActionUri(filePatch.newPath) : undefined;
+                            const label = `PATCH ${filePatch.newPath ?? filePatch.oldPath}`;
+                            const result = applyFilePatch(await builder.read((oldUri ?? uri)!), filePatch);
+                            if (oldUri && uri && oldUri.toString() !== uri.toString()) {
+                                await builder.rename(oldUri, uri, label);
+                            }
+                            await builder.write((uri ?? oldUri)!, result, label);
+                            if (oldUri) uris.push(oldUri);
+                            if (uri && uri.toString() !== oldUri?.toString()) uris.push(uri);
+                        }
+                        break;
+                    case 'RENAME':
+                    case 'MOVE': {
+                        const { from, to } = await this.resolveMoveTarget(action);
+                        if (await builder.read(from) === undefined) throw new Error(t('action.fileNotFound', action.path!));
+                        if (await builder.read(to) !== undefined) throw new Error(t('action.targetExists', vscode.workspace.asRelativePath(to)));
+                        await builder.rename(from, to, `${action.type} ${action.path} → ${action.newPath}`);
+                        uris.push(from, to);
+                        break;
+                    }
+                }
+                actions.push(action);
+            } catch (e: any) {
+                action.error = e.message;
+                this.saveSession();
+                this._view?.webview.postMessage({ type: 'actionError', actionId: action.id, error: e.message });
+                this.audit('failed', action, { error: e.message });
+                this.addToHistory({ role: 'error', text: t('batch.validationFailed', `${action.type} ${action.path ?? ''}`.trim(), e.message) });
+                return false;
+            }
+        }
+
+        if (actions.length === 0) return true;
 
-        if (options.includeStructure) {
-            const structure = await this.getProjectStructure();
-            contextText += `项目结构：\n${structure}\n\n`;
-            logMsg += " (含项目结构)";
+        // 快照记录批次执行前的状态，撤销任一操作都会恢复其涉及文件在批次前的内容
+        const snapshots = new Map<string, FileSnapshot>();
+        for (const uri of builder.uris) {
+            snapshots.set(uri.toString(), await takeSnapshot(uri));
         }
 
-        if (options.includeOpenFiles) {
-            let openFilesContext = "";
-            for (const doc of vscode.workspace.textDocuments) {
-                if (!doc.fileName.includes('node_modules') && doc.uri.scheme === 'file') {
-                    openFilesContext += `\nFile: ${doc.fileName}\n\`\`\`\n${doc.getText()}\n\`\`\`\n`;
-                }
+        for (const action of actions) {
+            this.audit('approved', action, { auto: true });
+            this.recordDiagnosticsBaseline(action, touched.get(action.id)!);
+        }
+        if (!await vscode.workspace.applyEdit(builder.build(true), { isRefactoring: true })) {
+            for (const action of actions) {
+                this.audit('cancelled', action);
             }
-            if (openFilesContext) {
-                contextText += `当前打开的文件内容：\n${openFilesContext}\n\n`;
-                logMsg += " (含打开文件)";
+            this.addToHistory({ role: 'system', text: t('batch.cancelled') });
+            return false;
+        }
+
+        for (const action of actions) {
+            const actionSnapshots = touched.get(action.id)!.map(uri => snapshots.get(uri.toString())!);
+            this._pendingActions = this._pendingActions.filter(a => a.id !== action.id);
+            action.status = 'done';
+            action.error = undefined;
+            this._snapshots.set(action.id, actionSnapshots);
+            this.audit('done', action);
+            this._view?.webview.postMessage({ type: 'actionComplete', actionId: action.id, revertible: true });
+        }
+        this.saveSession();
+        this.addToHistory({ role: 'system', text: t('batch.applied', actions.length, builder.uris.length) });
+        return true;
+    }
+
+    private async handleCopyPrompt(userInstruction: string, options: PromptOptions) {
+        const { prompt, notes, consume } = await this.composePrompt(userInstruction, options);
+        await vscode.env.clipboard.writeText(prompt);
+        consume();
+        // 在生成 Prompt 之后记录，对话记录中不会重复包含本次的需求
+        if (userInstruction.trim()) this.addToHistory({ role: 'user', text: userInstruction });
+        this.addToHistory({ role: 'system', text: t('copy.done') + notes });
+    }
+
+    /** 直接发送给配置的模型 (provider.mode 不是 clipboard 时)，流式显示回复，完成后自动解析其中的工具调用 */
+    private async handleSend(userInstruction: string, options: PromptOptions) {
+        if (this._sendCancellation) return;
+        const settings = getProviderSettings();
+        try {
+            getEndpoint(settings);
+        } catch (e: any) {
+            this.addToHistory({ role: 'error', text: t('provider.failed', e.message) });
+            return;
+        }
+
+        const cancellation = new vscode.CancellationTokenSource();
+        this._sendCancellation = cancellation;
+        this._view?.webview.postMessage({ type: 'streamStart' });
+        try {
+            const apiKey = await this._secrets.get(API_KEY_SECRET);
+            const { prompt, notes, consume } = await this.composePrompt(userInstruction, options);
+            if (userInstruction.trim()) this.addToHistory({ role: 'user', text: userInstruction });
+            this.addToHistory({ role: 'system', text: t('provider.sent', settings.model) + notes });
+            const reply = await streamChat(settings, apiKey, prompt,
+                text => this._view?.webview.postMessage({ type: 'streamText', text }), cancellation.token);
+            // 请求失败或取消时附加的内容保留到下一次发送
+            consume();
+            this._view?.webview.postMessage({ type: 'streamEnd' });
+            await this.parseAndConfirmActions(reply);
+        } catch (e: any) {
+            this._view?.webview.postMessage({ type: 'streamEnd' });
+            this._view?.webview.postMessage({ type: 'restoreInput', text: userInstruction });
+            if (e instanceof ChatCancelledError) {
+                this.addToHistory({ role: 'system', text: e.message });
+            } else {
+                this.addToHistory({ role: 'error', text: t('provider.failed', e.message) });
             }
+        } finally {
+            cancellation.dispose();
+            this._sendCancellation = undefined;
         }
+    }
 
-        const prompt = `你是一个强大的 AI Agent。请用简体中文回复。
-你可以执行以下工具指令，请严格遵守格式：
+    /**
+     * 生成 Prompt：上下文面板中的条目、最近的命令输出和待附加的工具结果。
+     * notes 说明附加了哪些内容，显示在对话中。Prompt 成功复制或发送后调用 consume，
+     * 从缓冲区中移除已附加的命令输出、拒绝记录和工具结果。
+     */
+    private async composePrompt(userInstruction: string, options: PromptOptions): Promise<{ prompt: string, notes: string, consume: () => void }> {
+        let logMsg = '';
 
-1. 修改代码:
-{{TOOL_CALL:MODIFY}}
-FILE: 文件路径
-BEFORE:
-\`\`\`
-原代码块
-\`\`\`
-AFTER:
-\`\`\`
-修改后代码块
-\`\`\`
+        const key = this.contextEstimateKey();
+        const built = await buildContext(this._contextItems, this.getContextBudget(), () => buildProjectTree());
+        let contextText = built.text ? `${built.text}\n` : '';
+        if (built.totalTokens > 0) logMsg += t('copy.withContext', built.totalTokens);
+        if (built.items.some(item => item.truncated || item.skipped)) logMsg += t('copy.contextTrimmed');
+        this._contextEstimate = { key, built };
+        this.postBuiltContext(built);
 
-2. 创建文件:
-{{TOOL_CALL:CREATE}}
-FILE: 文件路径
-CONTENT:
-\`\`\`
-文件内容
-\`\`\`
+        const shellResults = options.includeShellOutput ? [...this._shellResults] : [];
+        if (shellResults.length > 0) {
+            contextText += `${t('context.shell')}:\n`;
+            for (const result of shellResults) {
+                contextText += `\n\`\`\`\n${formatShellResult(result)}\`\`\`\n`;
+            }
+            contextText += '\n';
+            logMsg += t('copy.withShell', shellResults.length);
+        }
 
-3. 删除文件:
-{{TOOL_CALL:DELETE}}
-FILE: 文件路径
+        if (options.includeConversation) {
+            const config = vscode.workspace.getConfiguration('only-agent.conversation');
+            const conversation = buildConversation(this._chatHistory, config.get<number>('maxTurns', 5), config.get<number>('tokenBudget', 4000), estimateTokens);
+            if (conversation.turns > 0) {
+                contextText += `${conversation.text}\n`;
+                logMsg += t('copy.withConversation', conversation.turns);
+            }
+            if (conversation.omitted > 0) logMsg += t('copy.conversationOmitted', conversation.omitted);
+        }
 
-4. 终端指令:
-{{TOOL_CALL:SHELL}}
-COMMAND: 指令内容
+        const rejections = [...this._rejections];
+        if (rejections.length > 0) {
+            contextText += `${t('context.rejected')}:\n${rejections.map(r => `- ${r}`).join('\n')}\n\n`;
+            logMsg += t('copy.withRejections', rejections.length);
+        }
 
-5. 网络请求:
-{{TOOL_CALL:FETCH}}
-URL: 请求地址
+        const toolResults = [...this._contextBuffer];
+        if (toolResults.length > 0) {
+            contextText += `${t('context.toolResults')}:\n`;
+            for (const entry of toolResults) {
+                contextText += `\n[${entry.title}]\n\`\`\`\n${entry.text}\n\`\`\`\n`;
+            }
+            contextText += '\n';
+            logMsg += t('copy.withToolResults', toolResults.length);
+        }
 
-${contextText}User Request: ${userInstruction}`;
+        // 只移除本次附加的条目，等待回复期间新加入的保留到下一次
+        const consume = () => {
+            if (shellResults.length === 0 && rejections.length === 0 && toolResults.length === 0) return;
+            this._shellResults = this._shellResults.filter(r => !shellResults.includes(r));
+            this._rejections = this._rejections.filter(r => !rejections.includes(r));
+            this._contextBuffer = this._contextBuffer.filter(e => !toolResults.includes(e));
+            this.saveSession();
+            this.postContextBuffer();
+        };
 
-        await vscode.env.clipboard.writeText(prompt);
-        this.addToHistory({ role: 'system', text: logMsg });
+        const config = vscode.workspace.getConfiguration('only-agent');
+        const prompt = buildPrompt({
+            language: getUiLanguage(),
+            replyLanguage: config.get<string>('replyLanguage', ''),
+            preamble: config.get<string>('systemPreamble', ''),
+            rules: await loadProjectRules(),
+            enabledActions: getEnabledActions(),
+            syntax: getToolCallSyntax(),
+            workspaceFolders: (vscode.workspace.workspaceFolders ?? []).map(f => f.name),
+            context: contextText,
+            userInstruction
+        });
+        return { prompt, notes: logMsg, consume };
     }
 
     private async parseAndConfirmActions(aiResponse: string) {
-        this.addToHistory({ role: 'ai', text: aiResponse });
+        const batchId = Math.random().toString(36).substring(7);
+        this.addToHistory({ role: 'ai', text: aiResponse, batchId });
 
         const currentBatch: AgentAction[] = [];
-        const actionRegex = /{{\s*TOOL_CALL:\s*(\w+)\s*}}([\s\S]*?)(?={{\s*TOOL_CALL:|$)/g;
-        let match;
-
-        while ((match = actionRegex.exec(aiResponse)) !== null) {
-            const type = match[1];
-            const body = match[2];
-            const id = Math.random().toString(36).substring(7);
-            const action: AgentAction = { id, type: type as any };
-
-            const getField = (body: string, field: string) => {
-                const reg = new RegExp(`(?:\\*\\*)?${field}:(?:\\*\\*)?\\s*(.*)`, 'i');
-                return body.match(reg)?.[1]?.trim();
-            };
-            const getCodeBlock = (body: string, field: string) => {
-                const reg = new RegExp(`(?:\\*\\*)?${field}:(?:\\*\\*)?\\s*[\\s\\S]*?\`\`\`[\\w]*\\n?([\\s\\S]*?)\\n?\`\`\``, 'i');
-                return body.match(reg)?.[1];
-            };
-
-            if (type === 'MODIFY') {
-                action.path = getField(body, 'FILE');
-                action.before = getCodeBlock(body, 'BEFORE');
-                action.content = getCodeBlock(body, 'AFTER');
-            } else if (type === 'CREATE') {
-                action.path = getField(body, 'FILE');
-                action.content = getCodeBlock(body, 'CONTENT');
-            } else if (type === 'DELETE') {
-                action.path = getField(body, 'FILE');
-            } else if (type === 'SHELL') {
-                action.command = getField(body, 'COMMAND');
-            } else if (type === 'FETCH') {
-                action.url = getField(body, 'URL');
-            }
-
-            if (action.type) {
+        const enabledActions = getEnabledActions();
+        const calls = parseToolCalls(aiResponse, getToolCallSyntax());
+
+        for (const call of calls) {
+            const parsed = toAgentAction(call, aiResponse);
+            if (!parsed.action) {
+                this.audit('invalid', undefined, { batchId, error: parsed.errors.join('; ') });
+                this.addToHistory({ role: 'error', text: t('parse.invalidCall', parsed.errors.join('; ')), snippet: parsed.snippet });
+                continue;
+            }
+            const action: AgentAction = { id: Math.random().toString(36).substring(7), ...parsed.action, batchId };
+
+            if (!enabledActions.includes(action.type)) {
+                this.audit('invalid', action, { error: t('parse.disabledType', action.type) });
+                this.addToHistory({ role: 'error', text: t('parse.disabledType', action.type) });
+                continue;
+            }
+
+            if (action.status === 'pending') {
+                action.warning = await this.checkAction(action);
                 currentBatch.push(action);
                 this._pendingActions.push(action);
-                this.addToHistory({ role: 'action', text: '', action });
             }
+            this.audit(action.status === 'invalid' ? 'invalid' : 'parsed', action, { error: action.errors?.join('; ') });
+            this.addToHistory({ role: 'action', text: '', action });
         }
 
         if (currentBatch.length > 0) {
-            this._view?.webview.postMessage({ type: 'toggleApproveAll', show: true });
-        } else {
-            this.addToHistory({ role: 'error', text: '❌ 未识别到有效的 TOOL_CALL 指令。' });
+            this.postPendingState();
+            if (this.isVerificationEnabled()) {
+                await openForDiagnostics(currentBatch.filter(a => FILE_ACTION_TYPES.includes(a.type)).flatMap(a => this.actionFileUris(a)));
+            }
+        } else if (calls.length === 0) {
+            this.addToHistory({ role: 'error', text: t('parse.noToolCall') });
         }
     }
 
-    private async executeAction(actionId: string) {
+    /** Approve All 可以直接执行的操作：除 SHELL 外的所有操作，以及策略允许的低风险 SHELL 命令 */
+    private canAutoApprove(action: AgentAction): boolean {
+        return action.type !== 'SHELL' || evaluateShellCommand(action.command ?? '').verdict === 'allow';
+    }
+
+    /** 有待批准的操作时显示 Approve All 和 Reject All；没有可以自动批准的操作时隐藏 Approve All */
+    private postPendingState() {
+        this._view?.webview.postMessage({
+            type: 'toggleApproveAll',
+            show: this._pendingActions.length > 0,
+            approvable: this._pendingActions.some(a => this.canAutoApprove(a))
+        });
+    }
+
+    /** 拒绝待批准的操作：记录到对话历史，并在下一次 Prompt 中告诉 AI 哪些操作没有执行 */
+    private async rejectActions(actionIds: string[]) {
+        const rejected = this._pendingActions.filter(a => actionIds.includes(a.id));
+        if (rejected.length === 0) return;
+        this._pendingActions = this._pendingActions.filter(a => !rejected.includes(a));
+        for (const action of rejected) {
+            action.status = 'rejected';
+            this._rejections.push(`${action.type} ${actionTarget(action)}`);
+            this.audit('rejected', action);
+            this._view?.webview.postMessage({ type: 'actionRejected', actionId: action.id });
+        }
+        this.addToHistory({
+            role: 'system',
+            text: rejected.length === 1 ? t('reject.one', rejected[0].type, actionTarget(rejected[0])) : t('reject.many', rejected.length)
+        });
+        this.postPendingState();
+        // 剩余的文件操作被拒绝后，已执行的部分可以检查了
+        for (const batchId of new Set(rejected.map(a => a.batchId))) {
+            await this.verifyBatch(batchId);
+        }
+    }
+
+    /** 应用用户在操作卡片中的修改，重新检查后更新卡片 */
+    private async editAction(actionId: string, changes: ActionEdit) {
+        const action = this._pendingActions.find(a => a.id === actionId);
+        if (!action) return;
+        const errors = applyActionEdit(action, changes ?? {});
+        if (errors.length > 0) {
+            this._view?.webview.postMessage({ type: 'actionError', actionId, error: errors.join('; ') });
+            return;
+        }
+        // 匹配位置和命令风险都取决于修改前的内容
+        action.edited = true;
+        action.match = undefined;
+        action.matchIndex = undefined;
+        action.policy = undefined;
+        action.warning = await this.checkAction(action);
+        this.saveSession();
+        this.audit('edited', action, { warning: action.warning });
+        this._view?.webview.postMessage({ type: 'actionUpdated', action });
+        this.postPendingState();
+    }
+
+    /** unattended 为 true 表示由 Approve All 执行，SHELL 命令不再单独确认 */
+    private async executeAction(actionId: string, unattended = false) {
         const index = this._pendingActions.findIndex(a => a.id === actionId);
         if (index === -1) return;
         const action = this._pendingActions[index];
+        this.audit('approved', action, { auto: unattended });
 
         try {
-            const workspaceRoot = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
-            if (!workspaceRoot) throw new Error("未打开工作区");
+            const snapshots = await this.snapshotFiles(action);
+            this.recordDiagnosticsBaseline(action, snapshots.map(s => s.uri));
 
             switch (action.type) {
-                case 'MODIFY':
-                    const doc = await vscode.workspace.openTextDocument(path.resolve(workspaceRoot, action.path!));
+                case 'MODIFY': {
+                    const uri = this.resolveActionUri(action.path!);
+                    const doc = await vscode.workspace.openTextDocument(uri);
+                    const match = await this.resolveModifyMatch(action, uri, doc.getText());
+                    if (!match) {
+                        this.audit('cancelled', action);
+                        return;
+                    }
                     const editor = await vscode.window.showTextDocument(doc);
-                    const fullText = doc.getText();
-                    
-                    // 1. 尝试精确匹配
-                    const offset = fullText.indexOf(action.before!);
-                    if (offset !== -1) {
-                        await editor.edit(e => e.replace(new vscode.Range(doc.positionAt(offset), doc.positionAt(offset + action.before!.length)), action.content!));
-                    } else {
-                        // 2. 尝试基于行的模糊匹配 (忽略首尾空行和每行的缩进)
-                        const docLines = fullText.split(/\r?\n/);
-                        const searchLines = action.before!.split(/\r?\n/);
-                        
-                        // 移除搜索块首尾的空行
-                        let startSearch = 0; 
-                        let endSearch = searchLines.length - 1;
-                        while (startSearch <= endSearch && searchLines[startSearch].trim() === '') startSearch++;
-                        while (endSearch >= startSearch && searchLines[endSearch].trim() === '') endSearch--;
-                        
-                        const effectiveSearchLines = searchLines.slice(startSearch, endSearch + 1);
-                        
-                        if (effectiveSearchLines.length === 0) {
-                             throw new Error("原文块为空或全是空白，无法匹配。");
-                        }
-
-                        let foundLineIndex = -1;
-                        for (let i = 0; i <= docLines.length - effectiveSearchLines.length; i++) {
-                            let match = true;
-                            for (let j = 0; j < effectiveSearchLines.length; j++) {
-                                if (docLines[i + j].trim() !== effectiveSearchLines[j].trim()) {
-                                    match = false;
-                                    break;
-                                }
-                            }
-                            if (match) {
-                                foundLineIndex = i;
-                                break;
-                            }
+                    const replacement = getReplacement(doc.getText(), match, action.before!, action.content!);
+                    await editor.edit(e => e.replace(new vscode.Range(doc.positionAt(match.start), doc.positionAt(match.end)), replacement));
+                    break;
+                }
+                case 'CREATE': {
+                    const uri = this.resolveActionUri(action.path!);
+                    if (await this.exists(uri) && !await this.confirmOverwrite(action)) {
+                        this.audit('cancelled', action);
+                        return;
+                    }
+                    await vscode.workspace.fs.writeFile(uri, Buffer.from(action.content || ''));
+                    break;
+                }
+                case 'DELETE': {
+                    const uri = this.resolveActionUri(action.path!);
+                    const stat = await vscode.workspace.fs.stat(uri);
+                    if (stat.type & vscode.FileType.Directory) {
+                        if (!action.recursive) throw new Error(t('action.folderNeedsRecursive', action.path!));
+                        const deleteLabel = t('action.deleteFolder');
+                        // 文件太多时没有快照，删除后无法撤销，需要在确认时说明
+                        const noSnapshot = snapshots.length === 0 && (await vscode.workspace.fs.readDirectory(uri)).length > 0;
+                        const message = noSnapshot
+                            ? t('action.deleteFolderNoSnapshot', action.path!, MAX_FOLDER_SNAPSHOT_FILES)
+                            : t('action.deleteFolderConfirm', action.path!);
+                        const confirm = await vscode.window.showWarningMessage(message, { modal: true }, deleteLabel);
+                        if (confirm !== deleteLabel) {
+                            this.audit('cancelled', action);
+                            return;
                         }
-
-                        if (foundLineIndex !== -1) {
-                            const startPos = new vscode.Position(foundLineIndex, 0);
-                            const lastLineIndex = foundLineIndex + effectiveSearchLines.length - 1;
-                            const endPos = doc.lineAt(lastLineIndex).range.end;
-                            await editor.edit(e => e.replace(new vscode.Range(startPos, endPos), action.content!));
-                        } else {
-                            throw new Error("找不到原文块，无法修改。");
+                        await vscode.workspace.fs.delete(uri, { recursive: true });
+                    } else {
+                        await vscode.workspace.fs.delete(uri);
+                    }
+                    break;
+                }
+                case 'RENAME':
+                case 'MOVE': {
+                    const { from, to } = await this.resolveMoveTarget(action);
+                    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(to, '..'));
+                    if (action.updateImports) {
+                        // 通过 WorkspaceEdit 重命名会触发 onWillRenameFiles，语言扩展据此更新 import
+                        const edit = new vscode.WorkspaceEdit();
+                        edit.renameFile(from, to, { overwrite: false });
+                        if (!await vscode.workspace.applyEdit(edit, { isRefactoring: true })) {
+                            throw new Error(t('action.renameFailed', action.path!));
                         }
+                    } else {
+                        await vscode.workspace.fs.rename(from, to, { overwrite: false });
                     }
                     break;
-                case 'CREATE':
-                    const newUri = vscode.Uri.file(path.resolve(workspaceRoot, action.path!));
-                    await vscode.workspace.fs.writeFile(newUri, Buffer.from(action.content || ''));
+                }
+                case 'MKDIR':
+                    await vscode.workspace.fs.createDirectory(this.resolveActionUri(action.path!));
                     break;
-                case 'DELETE':
-                    const delUri = vscode.Uri.file(path.resolve(workspaceRoot, action.path!));
-                    await vscode.workspace.fs.delete(delUri);
+                case 'PATCH':
+                    await this.applyPatch(await this.computePatch(action));
                     break;
                 case 'SHELL':
-                    const terminal = vscode.window.activeTerminal || vscode.window.createTerminal();
-                    terminal.show();
-                    terminal.sendText(action.command!);
+                    if (!await this.confirmShell(action, unattended)) {
+                        this.audit('cancelled', action);
+                        return;
+                    }
+                    await this.runShell(action);
                     break;
                 case 'FETCH':
-                    if (action.url) vscode.env.openExternal(vscode.Uri.parse(action.url));
+                    await this.fetch(action);
+                    break;
+                case 'READ':
+                    action.output = await readFileTool(action.path!, action.range);
+                    this.queueContext(actionId, `READ ${action.path}${action.range ? ` (${action.range.start}-${action.range.end})` : ''}`, action.output);
+                    break;
+                case 'SEARCH':
+                    action.output = await searchTool(action.query!, !!action.isRegex, action.include);
+                    this.queueContext(actionId, `SEARCH ${action.query}`, action.output);
+                    break;
+                case 'LIST':
+                    action.output = await listTool(action.path);
+                    this.queueContext(actionId, `LIST ${action.path || '.'}`, action.output);
                     break;
             }
             
             this._pendingActions.splice(index, 1);
-            this._view?.webview.postMessage({ type: 'actionComplete', actionId });
-            
-            const remainingNonShell = this._pendingActions.filter(a => a.type !== 'SHELL');
-            if (remainingNonShell.length === 0) {
-                this._view?.webview.postMessage({ type: 'toggleApproveAll', show: false });
+            action.status = 'done';
+            if (snapshots.length > 0) {
+                this._snapshots.set(actionId, snapshots);
             }
+            this.saveSession();
+            action.error = undefined;
+            this.audit('done', action, { output: action.output });
+            this._view?.webview.postMessage({ type: 'actionComplete', actionId, revertible: snapshots.length > 0, output: action.output });
+            this.postPendingState();
+            // Approve All 在所有操作执行完后统一检查
+            if (!unattended) await this.verifyBatch(action.batchId);
 
         } catch (e: any) {
+            this.audit(action.type === 'SHELL' && action.policy?.verdict === 'deny' ? 'denied' : 'failed', action, { error: e.message });
+            // 保存错误信息，对话记录中会告诉 AI 这个操作失败了
+            action.error = e.message;
+            this.saveSession();
             this._view?.webview.postMessage({ type: 'actionError', actionId, error: e.message });
-            vscode.window.showErrorMessage(`执行失败: ${e.message}`);
+            vscode.window.showErrorMessage(t('action.failed', e.message));
         }
     }
 
-    private _getHtmlForWebview(webview: vscode.Webview) {
-        return `<!DOCTYPE html>
-        <html lang="en">
-        <head>
-            <meta charset="UTF-8">
-            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline' https://cdn.jsdelivr.net; script-src 'unsafe-inline' https://cdn.jsdelivr.net; img-src https: data:;">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <script src="https://cdn.jsdelivr.net/npm/marked/marked.min.js"><\/script>
-            <style>
-                body {
-                    padding: 0;
-                    margin: 0;
-                    font-family: var(--vscode-font-family);
-                    background-color: var(--vscode-editor-background);
-                    color: var(--vscode-editor-foreground);
-                    display: flex;
-                    flex-direction: column;
-                    height: 100vh;
-                }
-                
-                #chat-history {
-                    flex: 1;
-                    overflow-y: auto;
-                    padding: 10px;
-                    display: flex;
-                    flex-direction: column;
-                    gap: 10px;
-                }
+    private isVerificationEnabled(): boolean {
+        return vscode.workspace.getConfiguration('only-agent').get<boolean>('verify.enabled', true);
+    }
 
-                .message {
-                    padding: 8px 12px;
-                    border-radius: 6px;
-                    max-width: 95%;
-                    word-wrap: break-word;
-                    font-size: 13px;
-                    line-height: 1.5;
-                }
-                
-                .message p { margin: 0 0 8px 0; }
-                .message p:last-child { margin: 0; }
-                .message pre { background: var(--vscode-textBlockQuote-background); padding: 5px; overflow-x: auto; border-radius: 4px; }
-                .message code { font-family: var(--vscode-editor-font-family); font-size: 0.9em; }
-
-                .message.user {
-                    align-self: flex-end;
-                    background-color: var(--vscode-button-secondaryBackground);
-                    color: var(--vscode-button-secondaryForeground);
-                }
+    /** 文件操作涉及的文件，无法解析的路径会在执行时报错，这里忽略 */
+    private actionFileUris(action: AgentAction): vscode.Uri[] {
+        const uris: vscode.Uri[] = [];
+        for (const filePath of action.type === 'PATCH' ? action.files ?? [] : [action.path!]) {
+            try {
+                uris.push(this.resolveActionUri(filePath));
+            } catch {
+                // 忽略
+            }
+        }
+        return uris;
+    }
 
-                .message.ai {
-                    align-self: flex-start;
-                    background-color: var(--vscode-editor-inactiveSelectionBackground);
-                }
+    /** 文件操作执行前记录涉及文件的诊断，作为检查的基准 */
+    private recordDiagnosticsBaseline(action: AgentAction, uris: vscode.Uri[]) {
+        if (!action.batchId || !FILE_ACTION_TYPES.includes(action.type) || !this.isVerificationEnabled()) return;
+        let baseline = this._baselines.get(action.batchId);
+        if (!baseline) {
+            baseline = new Map();
+            this._baselines.set(action.batchId, baseline);
+        }
+        captureBaseline(baseline, uris);
+    }
 
-                .message.system {
-                    align-self: center;
-                    font-style: italic;
-                    color: var(--vscode-descriptionForeground);
-                    font-size: 12px;
-                    text-align: center;
-                }
-                
-                .message.error {
-                    align-self: flex-start;
-                    background-color: var(--vscode-inputValidation-errorBackground);
-                    border: 1px solid var(--vscode-inputValidation-errorBorder);
-                }
-                
-                .action-error-text {
-                    color: var(--vscode-errorForeground);
-                    font-size: 12px;
-                    margin-top: 5px;
-                    font-weight: bold;
-                }
+    /**
+     * 批次中的文件操作都已执行 (没有待批准的文件操作，或 evenIfPending 为 true) 后，
+     * 等待语言服务完成分析，将修改后新出现的错误和警告作为检查结果显示在对话中。
+     */
+    private async verifyBatch(batchId: string | undefined, evenIfPending = false) {
+        const baseline = batchId ? this._baselines.get(batchId) : undefined;
+        if (!batchId || !baseline) return;
+        if (!evenIfPending && this._pendingActions.some(a => a.batchId === batchId && FILE_ACTION_TYPES.includes(a.type))) return;
+        this._baselines.delete(batchId);
 
-                #input-area {
-                    padding: 10px;
-                    border-top: 1px solid var(--vscode-panel-border);
-                    background-color: var(--vscode-sideBar-background);
-                }
+        const timeoutSeconds = vscode.workspace.getConfiguration('only-agent').get<number>('verify.timeoutSeconds', 15);
+        const verifying = verifyChanges(batchId, baseline, timeoutSeconds * 1000);
+        vscode.window.setStatusBarMessage(t('verify.waiting'), verifying);
+        const report = await verifying;
+        if (report.files === 0) return;
+        this.addToHistory({ role: 'system', text: summarizeReport(report, timeoutSeconds), verification: report });
+    }
 
-                .context-controls {
-                    display: flex;
-                    gap: 10px;
-                    margin-bottom: 5px;
-                    font-size: 11px;
-                    color: var(--vscode-descriptionForeground);
-                }
+    /** 将检查出的问题和相关代码生成下一轮的 Prompt 并复制到剪贴板 */
+    private async copyFixupPrompt(reportId: string) {
+        const report = this._chatHistory.find(m => m.verification?.id === reportId)?.verification;
+        if (!report) {
+            this.addToHistory({ role: 'error', text: t('verify.reportNotFound') });
+            return;
+        }
+        const { prompt, notes, consume } = await this.composePrompt(await buildFixupInstruction(report), { includeShellOutput: false });
+        await vscode.env.clipboard.writeText(prompt);
+        consume();
+        this.addToHistory({ role: 'system', text: t('verify.fixupCopied') + notes });
+    }
 
-                .context-controls label {
-                    display: flex;
-                    align-items: center;
-                    cursor: pointer;
-                }
-                
-                .context-controls input {
-                    margin-right: 4px;
-                }
+    /**
+     * 执行前按命令策略重新判断 SHELL 命令 (设置可能已经变化)：禁止的命令直接报错，
+     * 高风险命令需要在对话框中再次确认。每个判断都会记录到对话历史中。
+     */
+    private async confirmShell(action: AgentAction, unattended: boolean): Promise<boolean> {
+        const command = action.command!;
+        const decision = evaluateShellCommand(command);
+        action.policy = decision;
+        this._view?.webview.postMessage({ type: 'actionPolicy', actionId: action.id, policy: decision });
+        const risk = t(`policy.risk.${decision.risk}`);
 
-                textarea {
-                    width: 100%;
-                    height: 70px;
-                    resize: vertical;
-                    background-color: var(--vscode-input-background);
-                    color: var(--vscode-input-foreground);
-                    border: 1px solid var(--vscode-input-border);
-                    border-radius: 2px;
-                    padding: 5px;
-                    font-family: var(--vscode-editor-font-family);
-                    outline: none;
-                }
-                
-                textarea:focus {
-                    border-color: var(--vscode-focusBorder);
-                }
+        if (decision.verdict === 'deny') {
+            this.addToHistory({ role: 'system', text: t('policy.denied', command, decision.rule!) });
+            throw new Error(t('policy.denied', command, decision.rule!));
+        }
+        if (unattended) {
+            this.addToHistory({ role: 'system', text: t('policy.autoApproved', command, decision.rule!, risk) });
+            return true;
+        }
+        if (decision.risk === 'high') {
+            const run = t('policy.run');
+            const confirm = await vscode.window.showWarningMessage(t('policy.highRiskConfirm', decision.reasons.join(', '), command), { modal: true }, run);
+            if (confirm !== run) {
+                this.addToHistory({ role: 'system', text: t('policy.userCancelled', command) });
+                return false;
+            }
+        }
+        this.addToHistory({ role: 'system', text: t('policy.userApproved', command, risk) });
+        return true;
+    }
 
-                .button-group {
-                    display: flex;
-                    gap: 8px;
-                    margin-top: 8px;
-                }
+    /** 执行 SHELL 指令并记录输出，非零退出码会在卡片上给出提示 */
+    private async runShell(action: AgentAction) {
+        const cwd = action.cwd
+            ? resolveWorkspacePath(action.cwd).uri.fsPath
+            : vscode.workspace.workspaceFolders?.[0].uri.fsPath ?? process.cwd();
+        const timeout = vscode.workspace.getConfiguration('only-agent').get<number>('shell.timeoutSeconds', 120);
+        const result = await this._shellRunner.run(action.command!, cwd, timeout * 1000);
 
-                button {
-                    flex: 1;
-                    padding: 6px;
-                    border: none;
-                    border-radius: 2px;
-                    cursor: pointer;
-                    font-size: 12px;
-                    color: var(--vscode-button-foreground);
-                }
+        action.output = formatShellResult(result);
+        this._shellResults = [...this._shellResults, result].slice(-5);
+        if (result.timedOut || result.exitCode !== 0) {
+            action.warning = result.timedOut ? t('shell.timedOut', timeout) : t('shell.exitCode', String(result.exitCode));
+            this._view?.webview.postMessage({ type: 'actionWarning', actionId: action.id, warning: action.warning });
+        }
+    }
 
-                #btn-copy {
-                    background-color: var(--vscode-button-secondaryBackground);
-                    color: var(--vscode-button-secondaryForeground);
-                }
-                
-                #btn-apply {
-                    background-color: var(--vscode-button-background);
-                }
-                
-                #btn-approve-all {
-                    background-color: var(--vscode-statusBarItem-warningBackground);
-                    color: white;
+    /** 下载 FETCH 的内容并加入上下文缓冲区 */
+    private async fetch(action: AgentAction) {
+        if (!action.url) throw new Error(t('fetch.missingUrl'));
+        const config = vscode.workspace.getConfiguration('only-agent.fetch');
+        const result = await fetchUrl(action.url, {
+            timeoutMs: config.get<number>('timeoutSeconds', 15) * 1000,
+            maxBytes: config.get<number>('maxKilobytes', 512) * 1024,
+            allowedSchemes: config.get<string[]>('allowedSchemes', ['https', 'http']),
+            allowedHosts: config.get<string[]>('allowedHosts', [])
+        });
+        if (result.status >= 400) throw new Error(t('fetch.httpError', result.status));
+
+        action.output = result.text + (result.truncated ? '\n' + t('fetch.truncated') : '');
+        this.queueContext(action.id, `FETCH ${result.url} (${result.contentType || 'unknown'})`, action.output);
+    }
+
+    /** 在执行前为操作涉及的文件拍摄快照 */
+    private async snapshotFiles(action: AgentAction): Promise<FileSnapshot[]> {
+        if (action.type === 'PATCH') {
+            const snapshots: FileSnapshot[] = [];
+            for (const file of await this.computePatch(action)) {
+                if (file.oldUri) snapshots.push(await takeSnapshot(file.oldUri));
+                if (file.uri && file.uri.toString() !== file.oldUri?.toString()) snapshots.push(await takeSnapshot(file.uri));
+            }
+            return snapshots;
+        }
+        if (action.type === 'RENAME' || action.type === 'MOVE') {
+            const { from, to } = await this.resolveMoveTarget(action);
+            return [{ uri: from, movedTo: to }];
+        }
+        if (action.type === 'MKDIR') {
+            const uri = this.resolveActionUri(action.path!);
+            return await this.exists(uri) ? [] : [{ uri }];
+        }
+        if (action.type === 'DELETE') {
+            const uri = this.resolveActionUri(action.path!);
+            if (await this.isDirectory(uri)) return await takeFolderSnapshot(uri) ?? [];
+        }
+        if (action.type !== 'MODIFY' && action.type !== 'CREATE' && action.type !== 'DELETE') return [];
+        return [await takeSnapshot(this.resolveActionUri(action.path!))];
+    }
+
+    /** RENAME/MOVE 的源和目标；MOVE 的目标以 "/" 结尾或是已存在的文件夹时，移动到该文件夹下 */
+    private async resolveMoveTarget(action: AgentAction): Promise<{ from: vscode.Uri, to: vscode.Uri }> {
+        const from = this.resolveActionUri(action.path!);
+        const target = action.newPath!;
+        if (action.type === 'MOVE' && (/[\\/]$/.test(target) || await this.isDirectory(resolveWorkspacePath(target).uri))) {
+            return { from, to: this.resolveActionUri(`${target.replace(/[\\/]+$/, '')}/${path.basename(from.fsPath)}`) };
+        }
+        return { from, to: this.resolveActionUri(target) };
+    }
+
+    private async exists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private async isDirectory(uri: vscode.Uri): Promise<boolean> {
+        try {
+            return ((await vscode.workspace.fs.stat(uri)).type & vscode.FileType.Directory) !== 0;
+        } catch {
+            return false;
+        }
+    }
+
+    /** CREATE 的目标文件已存在时询问：覆盖、查看差异 (保持待批准) 或跳过 */
+    private async confirmOverwrite(action: AgentAction): Promise<boolean> {
+        const overwrite = t('create.overwrite');
+        const showDiff = t('create.showDiff');
+        const choice = await vscode.window.showWarningMessage(t('create.exists', action.path!), { modal: true }, overwrite, showDiff, t('create.skip'));
+        if (choice === showDiff) {
+            await this.previewAction(action.id);
+        }
+        return choice === overwrite;
+    }
+
+    /**
+     * 计算 PATCH 对每个文件的修改结果，任何一个 hunk 无法应用时抛出错误，
+     * 因此补丁要么全部应用，要么完全不应用。
+     */
+    private async computePatch(action: AgentAction): Promise<PatchFileResult[]> {
+        if (!action.content) throw new Error(t('patch.missingDiff'));
+        const results: PatchFileResult[] = [];
+        for (const filePatch of parseUnifiedDiff(action.content)) {
+            const oldUri = filePatch.oldPath ? this.resolveActionUri(filePatch.oldPath) : undefined;
+            const uri = filePatch.newPath ? this.resolveActionUri(filePatch.newPath) : undefined;
+            const original = await this.readFileText((oldUri ?? uri)!);
+            results.push({
+                displayPath: (filePatch.newPath ?? filePatch.oldPath)!,
+                oldUri,
+                uri,
+                original,
+                result: applyFilePatch(original, filePatch)
+            });
+        }
+        return results;
+    }
+
+    private async applyPatch(files: PatchFileResult[]) {
+        const edit = new vscode.WorkspaceEdit();
+        for (const file of files) {
+            if (!file.uri) {
+                edit.deleteFile(file.oldUri!);
+            } else if (!file.oldUri) {
+                edit.createFile(file.uri, { overwrite: false });
+                edit.insert(file.uri, new vscode.Position(0, 0), file.result!);
+            } else {
+                if (file.oldUri.toString() !== file.uri.toString()) {
+                    edit.renameFile(file.oldUri, file.uri, { overwrite: false });
                 }
+                const doc = await vscode.workspace.openTextDocument(file.oldUri);
+                edit.replace(file.uri, new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length)), file.result!);
+            }
+        }
+        if (!await vscode.workspace.applyEdit(edit)) {
+            throw new Error(t('patch.applyFailed'));
+        }
+    }
+
+    private findAction(actionId: string): AgentAction | undefined {
+        return this._chatHistory.find(m => m.action?.id === actionId)?.action;
+    }
+
+    private async revertAction(actionId: string) {
+        const snapshots = this._snapshots.get(actionId);
+        try {
+            if (!snapshots) throw new Error(t('revert.noSnapshot'));
+            for (const snapshot of [...snapshots].reverse()) {
+                await restoreSnapshot(snapshot);
+            }
+            this._snapshots.delete(actionId);
+            const action = this.findAction(actionId);
+            if (action) {
+                action.status = 'reverted';
+                this.audit('reverted', action);
+            }
+            this.saveSession();
+            this._view?.webview.postMessage({ type: 'actionReverted', actionId });
+        } catch (e: any) {
+            this._view?.webview.postMessage({ type: 'actionError', actionId, error: e.message });
+            vscode.window.showErrorMessage(t('revert.failed', e.message));
+        }
+    }
+
+    /** 按执行顺序的逆序撤销同一批次中已执行的操作 */
+    private async revertBatch(batchId: string) {
+        const actionIds = Array.from(this._snapshots.keys())
+            .filter(id => this.findAction(id)?.batchId === batchId)
+            .reverse();
+
+        if (actionIds.length === 0) {
+            this.addToHistory({ role: 'system', text: t('revert.batchEmpty') });
+            return;
+        }
+        for (const id of actionIds) {
+            await this.revertAction(id);
+        }
+        this.addToHistory({ role: 'system', text: t('revert.batchDone', actionIds.length) });
+    }
+
+    /** 解析操作的目标路径，拒绝工作区之外以及受保护的路径 */
+    private resolveActionUri(filePath: string): vscode.Uri {
+        return resolveWritablePath(filePath).uri;
+    }
 
-                button:hover {
-                    opacity: 0.9;
+    private async readFileText(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            return (await vscode.workspace.openTextDocument(uri)).getText();
+        } catch {
+            return undefined;
+        }
+    }
+
+    /** 批准前检查 MODIFY 的 BEFORE 块以及 PATCH 的各个 hunk 能否在目标文件中匹配，以及文件操作的源和目标 */
+    private async checkAction(action: AgentAction): Promise<string | undefined> {
+        if (action.type === 'PATCH') {
+            try {
+                await this.computePatch(action);
+                return undefined;
+            } catch (e: any) {
+                return e.message;
+            }
+        }
+        if (action.type === 'SHELL' && action.command) {
+            action.policy = evaluateShellCommand(action.command);
+            return undefined;
+        }
+        if (action.type === 'CREATE' || action.type === 'DELETE' || action.type === 'RENAME' || action.type === 'MOVE' || action.type === 'MKDIR') {
+            try {
+                return await this.checkFileOperation(action);
+            } catch (e: any) {
+                return e.message;
+            }
+        }
+        if (action.type !== 'MODIFY' || !action.path || action.before === undefined) return undefined;
+        try {
+            const text = await this.readFileText(this.resolveActionUri(action.path));
+            if (text === undefined) return t('action.fileNotFound', action.path);
+            const matches = findMatches(text, action.before);
+            action.match = { strategy: matches[0].strategy, score: Math.max(...matches.map(m => m.score)), candidates: matches.length };
+            return matches.length > 1 ? t('match.ambiguous', matches.length) : undefined;
+        } catch (e: any) {
+            return e.message;
+        }
+    }
+
+    /** 检查文件操作的源和目标是否存在，例如 CREATE 会覆盖已有文件、RENAME 的目标已存在 */
+    private async checkFileOperation(action: AgentAction): Promise<string | undefined> {
+        const uri = this.resolveActionUri(action.path!);
+        switch (action.type) {
+            case 'CREATE':
+                return await this.exists(uri) ? t('create.existsWarning') : undefined;
+            case 'MKDIR':
+                return await this.exists(uri) ? t('action.folderExists', action.path!) : undefined;
+            case 'DELETE':
+                if (!await this.exists(uri)) return t('action.fileNotFound', action.path!);
+                return await this.isDirectory(uri) && !action.recursive ? t('action.folderNeedsRecursive', action.path!) : undefined;
+            case 'RENAME':
+            case 'MOVE': {
+                if (!await this.exists(uri)) return t('action.fileNotFound', action.path!);
+                const { to } = await this.resolveMoveTarget(action);
+                return await this.exists(to) ? t('action.targetExists', vscode.workspace.asRelativePath(to)) : undefined;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 确定 MODIFY 要替换的位置。BEFORE 块有多个候选位置时让用户选择并记住选择；
+     * 文件变化导致之前的选择失效时重新选择。用户取消时返回 undefined。
+     */
+    private async resolveModifyMatch(action: AgentAction, uri: vscode.Uri, text: string): Promise<BlockMatch | undefined> {
+        const matches = findMatches(text, action.before!);
+        if (matches.length === 1) return matches[0];
+        if (action.matchIndex === undefined || action.matchIndex >= matches.length) {
+            action.matchIndex = await pickMatch(uri, matches);
+            if (action.matchIndex === undefined) return undefined;
+            this.saveSession();
+        }
+        return matches[action.matchIndex];
+    }
+
+    /** 在 diff 视图中对比当前文件与操作执行后的结果 */
+    private async previewAction(actionId: string) {
+        const action = this._pendingActions.find(a => a.id === actionId);
+        if (!action) return;
+
+        if (action.type === 'PATCH') {
+            try {
+                for (const file of await this.computePatch(action)) {
+                    const original = file.original === undefined
+                        ? this._previewProvider.register(actionId, 'empty', file.displayPath, '')
+                        : file.oldUri!;
+                    const modified = this._previewProvider.register(actionId, 'proposed', file.displayPath, file.result ?? '');
+                    await vscode.commands.executeCommand('vscode.diff', original, modified, t('action.previewTitle', path.basename(file.displayPath), 'PATCH'));
                 }
-            </style>
+            } catch (e: any) {
+                this._view?.webview.postMessage({ type: 'actionWarning', actionId, warning: e.message });
+            }
+            return;
+        }
+        if (!action.path) return;
+
+        try {
+            const uri = this.resolveActionUri(action.path);
+            const currentText = await this.readFileText(uri);
+            let proposed: string;
+
+            if (action.type === 'MODIFY') {
+                if (currentText === undefined) throw new Error(t('action.fileNotFound', action.path));
+                const match = await this.resolveModifyMatch(action, uri, currentText);
+                if (!match) return;
+                proposed = currentText.substring(0, match.start) + getReplacement(currentText, match, action.before!, action.content!) + currentText.substring(match.end);
+            } else if (action.type === 'CREATE') {
+                proposed = action.content || '';
+            } else {
+                return;
+            }
+
+            const original = currentText === undefined
+                ? this._previewProvider.register(actionId, 'empty', action.path, '')
+                : uri;
+            const modified = this._previewProvider.register(actionId, 'proposed', action.path, proposed);
+            await vscode.commands.executeCommand('vscode.diff', original, modified, t('action.previewTitle', path.basename(action.path), action.type));
+        } catch (e: any) {
+            this._view?.webview.postMessage({ type: 'actionWarning', actionId, warning: e.message });
+        }
+    }
+
+    private _getHtmlForWebview(webview: vscode.Webview) {
+        const L = webviewStrings();
+        const nonce = crypto.randomBytes(16).toString('base64');
+        const resource = (...segments: string[]) => webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, ...segments));
+        // Markdown 渲染、HTML 过滤和代码高亮都随扩展一起发布，不依赖网络
+        const scripts = [
+            resource('node_modules', 'marked', 'lib', 'marked.umd.js'),
+            resource('node_modules', 'dompurify', 'dist', 'purify.min.js'),
+            resource('node_modules', '@highlightjs', 'cdn-assets', 'highlight.min.js'),
+            resource('media', 'main.js')
+        ];
+        // 界面文字作为 JSON 数据块传给页面脚本，转义 < 以免提前结束 script 元素
+        const strings = JSON.stringify(L).replace(/</g, '\\u003c');
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}'; img-src ${webview.cspSource} data:; font-src ${webview.cspSource};">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <link rel="stylesheet" href="${resource('media', 'main.css')}">
         </head>
         <body>
             <div id="chat-history"><\/div>
             
             <div id="input-area">
-                <div id="global-actions" style="display: none; padding-bottom: 8px;">
-                    <button id="btn-approve-all" style="width: 100%;">批准并执行所有非终端指令 (Approve All)<\/button>
+                <div id="global-actions">
+                    <div class="button-group">
+                        <button id="btn-approve-all">${L.approveAll}<\/button>
+                        <button id="btn-reject-all">${L.rejectAll}<\/button>
+                    <\/div>
                 <\/div>
                 
+                <div id="context-buffer" class="context-buffer">
+                    <span id="context-buffer-text"><\/span>
+                    <a href="#" id="btn-clear-context">${L.clear}<\/a>
+                <\/div>
+
+                <details class="context-panel" open>
+                    <summary>${L.contextPanel} <span id="context-total"><\/span><\/summary>
+                    <div id="context-items"><\/div>
+                    <div class="context-add">
+                        <a href="#" data-kind="currentFile">${L.addCurrentFile}<\/a>
+                        <a href="#" data-kind="selection">${L.addSelection}<\/a>
+                        <a href="#" data-kind="files">${L.addFiles}<\/a>
+                        <a href="#" data-kind="symbol">${L.addSymbol}<\/a>
+                        <a href="#" data-kind="structure">${L.addStructure}<\/a>
+                        <a href="#" data-kind="openFiles">${L.addOpenFiles}<\/a>
+                        <a href="#" data-kind="gitChanges">${L.addGitChanges}<\/a>
+                        <a href="#" data-kind="gitLog">${L.addGitLog}<\/a>
+                        <a href="#" data-kind="gitBranchDiff">${L.addGitBranchDiff}<\/a>
+                    <\/div>
+                <\/details>
+
                 <div class="context-controls">
-                    <span>包含上下文:<\/span>
-                    <label><input type="checkbox" id="chk-structure" checked> 项目结构<\/label>
-                    <label><input type="checkbox" id="chk-files" checked> 打开的文件<\/label>
+                    <span>${L.includeContext}<\/span>
+                    <label><input type="checkbox" id="chk-shell" checked> ${L.shellOutput}<\/label>
+                    <label><input type="checkbox" id="chk-conversation" checked> ${L.conversation}<\/label>
+                    <a href="#" id="btn-new-thread">${L.newThread}<\/a>
                 <\/div>
 
-                <textarea id="prompt-input" placeholder="输入需求或粘贴 AI 回复..."><\/textarea>
+                <textarea id="prompt-input" placeholder="${L.placeholder}"><\/textarea>
                 <div class="button-group">
-                    <button id="btn-copy">Copy Prompt<\/button>
-                    <button id="btn-apply">Apply Changes<\/button>
+                    <button id="btn-copy">${L.copyPrompt}<\/button>
+                    <button id="btn-apply">${L.apply}<\/button>
+                    ${getProviderSettings().mode !== 'clipboard' ? `<button id="btn-send">${L.send}<\/button>` : ''}
                 <\/div>
             <\/div>
 
-            <script>
-                const vscode = acquireVsCodeApi();
-                const chatHistory = document.getElementById('chat-history');
-                const promptInput = document.getElementById('prompt-input');
-                const globalActions = document.getElementById('global-actions');
-                
-                vscode.postMessage({ type: 'ready' });
-
-                window.addEventListener('message', event => {
-                    const msg = event.data;
-                    switch (msg.type) {
-                        case 'addMessage':
-                            renderMessage(msg.message);
-                            break;
-                        case 'restoreHistory':
-                            chatHistory.innerHTML = '';
-                            msg.history.forEach(renderMessage);
-                            break;
-                        case 'clearChat':
-                            chatHistory.innerHTML = '';
-                            break;
-                        case 'actionComplete':
-                            markActionComplete(msg.actionId);
-                            break;
-                        case 'actionError':
-                            showActionError(msg.actionId, msg.error);
-                            break;
-                        case 'toggleApproveAll':
-                            globalActions.style.display = msg.show ? 'block' : 'none';
-                            break;
-                    }
-                });
-
-                document.getElementById('btn-approve-all').onclick = () => {
-                    vscode.postMessage({ type: 'approveAll' });
-                };
-
-                function renderMessage(message) {
-                    if (message.role === 'action') {
-                        renderActionCard(message.action);
-                        return;
-                    }
-                    
-                    const div = document.createElement('div');
-                    div.className = 'message ' + message.role;
-                    
-                    if (message.role === 'ai' && window.marked) {
-                        div.innerHTML = marked.parse(message.text);
-                    } else {
-                        div.innerHTML = message.text;
-                    }
-                    
-                    chatHistory.appendChild(div);
-                    chatHistory.scrollTop = chatHistory.scrollHeight;
-                }
-
-                function renderActionCard(action) {
-                    const card = document.createElement('div');
-                    card.id = 'card-' + action.id;
-                    card.className = 'message ai';
-                    card.style.borderLeft = '4px solid var(--vscode-button-background)';
-                    card.innerHTML = \`
-                        <strong>待批准操作: \${action.type}<\/strong><br>
-                        <code>\${action.path || action.command || action.url || ''}<\/code><br>
-                        <button id="action-\${action.id}" style="margin-top:5px; width:100%">批准并执行<\/button>
-                        <div id="error-\${action.id}" class="action-error-text"><\/div>
-                    \`;
-                    chatHistory.appendChild(card);
-                    
-                    const btn = document.getElementById('action-' + action.id);
-                    btn.onclick = () => {
-                        document.getElementById('error-' + action.id).innerText = '';
-                        vscode.postMessage({ type: 'approveAction', actionId: action.id });
-                    };
-                    chatHistory.scrollTop = chatHistory.scrollHeight;
-                }
-
-                function markActionComplete(actionId) {
-                    const btn = document.getElementById('action-' + actionId);
-                    if (btn) {
-                        btn.innerText = '✓ 已完成';
-                        btn.disabled = true;
-                        btn.parentElement.style.opacity = '0.7';
-                    }
-                }
-                
-                function showActionError(actionId, errorMsg) {
-                    const errDiv = document.getElementById('error-' + actionId);
-                    if (errDiv) {
-                        errDiv.innerText = '执行错误: ' + errorMsg;
-                    }
-                }
-
-                document.getElementById('btn-copy').addEventListener('click', () => {
-                    vscode.postMessage({
-                        type: 'copyPrompt',
-                        inputValue: promptInput.value,
-                        options: {
-                            includeStructure: document.getElementById('chk-structure').checked,
-                            includeOpenFiles: document.getElementById('chk-files').checked
-                        }
-                    });
-                });
-
-                document.getElementById('btn-apply').addEventListener('click', () => {
-                    const text = promptInput.value;
-                    promptInput.value = '';
-                    vscode.postMessage({
-                        type: 'applyChange',
-                        inputValue: text
-                    });
-                });
-            <\/script>
+            <script type="application/json" id="webview-strings">${strings}<\/script>
+            ${scripts.map(src => `<script nonce="${nonce}" src="${src}"><\/script>`).join('\n            ')}
         <\/body>
         <\/html>`;
     }
@@ -0,0 +1,151 @@
+import * as http from 'http';
+import * as https from 'https';
+import { URL } from 'url';
+import { matchesAnyGlob } from './glob';
+import { t } from './i18n';
+
+export interface FetchOptions {
+    timeoutMs: number;
+    maxBytes: number;
+    /** 允许的协议，例如 ['https', 'http'] */
+    allowedSchemes: string[];
+    /** 允许的主机 (glob 模式)，为空表示不限制 */
+    allowedHosts: string[];
+}
+
+export interface FetchResult {
+    url: string;
+    status: number;
+    contentType: string;
+    /** 转换后的可读文本 (HTML 转为纯文本，JSON 格式化) */
+    text: string;
+    truncated: boolean;
+}
+
+const MAX_REDIRECTS = 5;
+
+function checkAllowed(url: URL, options: FetchOptions) {
+    const scheme = url.protocol.replace(/:$/, '');
+    if (!options.allowedSchemes.includes(scheme)) {
+        throw new Error(t('fetch.schemeNotAllowed', scheme, options.allowedSchemes.join(', ')));
+    }
+    if (options.allowedHosts.length > 0 && !matchesAnyGlob(url.hostname, options.allowedHosts.map(h => '/' + h))) {
+        throw new Error(t('fetch.hostNotAllowed', url.hostname));
+    }
+}
+
+/**
+ * 发送一个 GET 请求。timeoutMs 是连接空闲的超时，deadline 是整个下载 (包括重定向) 的截止时间，
+ * 服务器持续缓慢发送数据时也会在截止时间中止。
+ */
+function request(url: URL, options: FetchOptions, deadline: number): Promise<{ status: number, headers: http.IncomingHttpHeaders, body: Buffer, truncated: boolean }> {
+    const client = url.protocol === 'http:' ? http : https;
+    return new Promise((resolve, reject) => {
+        const timeoutError = () => new Error(t('fetch.timeout', options.timeoutMs / 1000));
+        const deadlineTimer = setTimeout(() => req.destroy(timeoutError()), Math.max(0, deadline - Date.now()));
+        const req = client.get(url, { headers: { 'User-Agent': 'only-agent', 'Accept': 'text/html,application/json,text/plain,*/*' } }, res => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+            let truncated = false;
+            res.on('data', (chunk: Buffer) => {
+                if (truncated) return;
+                if (size + chunk.length > options.maxBytes) {
+                    chunks.push(chunk.subarray(0, options.maxBytes - size));
+                    size = options.maxBytes;
+                    truncated = true;
+                    res.destroy();
+                    resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks), truncated });
+                    return;
+                }
+                chunks.push(chunk);
+                size += chunk.length;
+            });
+            res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks), truncated }));
+            res.on('error', reject);
+        });
+        req.setTimeout(options.timeoutMs, () => req.destroy(timeoutError()));
+        req.on('error', reject);
+        req.on('close', () => clearTimeout(deadlineTimer));
+    });
+}
+
+/** 按 content-type 中的 charset (HTML 还会查看 <meta charset>) 解码，未知的编码按 UTF-8 处理 */
+function decodeBody(body: Buffer, contentType: string): string {
+    let charset = contentType.match(/charset\s*=\s*["']?([\w.:-]+)/)?.[1];
+    if (!charset && contentType.includes('html')) {
+        charset = body.subarray(0, 1024).toString('latin1').match(/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i)?.[1];
+    }
+    try {
+        return new TextDecoder(charset ?? 'utf-8').decode(body);
+    } catch {
+        return new TextDecoder('utf-8').decode(body);
+    }
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (m, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+            return isNaN(code) ? m : String.fromCodePoint(code);
+        }
+        return ENTITIES[entity.toLowerCase()] ?? m;
+    });
+}
+
+/** 将 HTML 转换为可读的纯文本：去掉脚本/样式，块级元素换行，保留链接地址 */
+export function htmlToText(html: string): string {
+    return decodeEntities(html
+        .replace(/<(script|style|noscript|svg|head)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<a\s[^>]*href="([^"#][^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+        .replace(/<(br|hr)\s*\/?>/gi, '\n')
+        .replace(/<li[^>]*>/gi, '\n- ')
+        .replace(/<h([1-6])[^>]*>/gi, (_m, level: string) => '\n\n' + '#'.repeat(parseInt(level, 10)) + ' ')
+        .replace(/<\/(p|div|section|article|header|footer|h[1-6]|ul|ol|table|tr|pre|blockquote)>/gi, '\n\n')
+        .replace(/<\/t[dh]>/gi, '\t')
+        .replace(/<[^>]+>/g, ''))
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/** 下载 URL 内容并根据 content-type 转换为可读文本 */
+export async function fetchUrl(rawUrl: string, options: FetchOptions): Promise<FetchResult> {
+    let url: URL;
+    try {
+        url = new URL(rawUrl);
+    } catch {
+        throw new Error(t('fetch.invalidUrl', rawUrl));
+    }
+
+    const deadline = Date.now() + options.timeoutMs;
+    for (let redirects = 0; ; redirects++) {
+        checkAllowed(url, options);
+        const response = await request(url, options, deadline);
+        const location = response.headers.location;
+        if (response.status >= 300 && response.status < 400 && location) {
+            if (redirects >= MAX_REDIRECTS) throw new Error(t('fetch.tooManyRedirects'));
+            url = new URL(location, url);
+            continue;
+        }
+
+        const contentType = (response.headers['content-type'] ?? '').toLowerCase();
+        if (!/^(text\/|application\/(json|xml|javascript|[\w.+-]+\+(json|xml)))/.test(contentType) && contentType !== '') {
+            throw new Error(t('fetch.unsupportedType', contentType));
+        }
+
+        let text = decodeBody(response.body, contentType);
+        if (contentType.includes('html')) {
+            text = htmlToText(text);
+        } else if (contentType.includes('json') && !response.truncated) {
+            try {
+                text = JSON.stringify(JSON.parse(text), null, 2);
+            } catch {
+                // 保持原文
+            }
+        }
+        return { url: url.toString(), status: response.status, contentType, text, truncated: response.truncated };
+    }
+}
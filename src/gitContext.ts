@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { t } from './i18n';
+
+// 内置 Git 扩展 (vscode.git) API 中用到的部分，完整定义见 vscode 仓库的 extensions/git/src/api/git.d.ts
+interface GitChange {
+    readonly uri: vscode.Uri;
+    readonly status: number;
+}
+
+interface GitCommit {
+    readonly hash: string;
+    readonly message: string;
+    readonly authorName?: string;
+    readonly authorDate?: Date;
+}
+
+interface GitRef {
+    readonly name?: string;
+    readonly remote?: string;
+}
+
+interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly state: {
+        readonly HEAD: GitRef | undefined;
+        readonly indexChanges: GitChange[];
+        readonly workingTreeChanges: GitChange[];
+    };
+    diff(cached?: boolean): Promise<string>;
+    diffWith(ref: string): Promise<string>;
+    getMergeBase(ref1: string, ref2: string): Promise<string | undefined>;
+    getBranches(query: { remote?: boolean }): Promise<GitRef[]>;
+    log(options?: { maxEntries?: number }): Promise<GitCommit[]>;
+}
+
+interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): { readonly repositories: GitRepository[] };
+}
+
+/** 一段 Git 上下文，与文件上下文一样在预算内生成 */
+export interface GitSection {
+    text: string;
+    truncated: boolean;
+    skipped?: string;
+}
+
+/** Change.status 对应 git status --short 的字母，未列出的为冲突状态 */
+const STATUS_LETTERS = ['M', 'A', 'D', 'R', 'C', 'M', 'D', '?', '!', 'A', 'R', 'T'];
+
+async function getRepositories(): Promise<GitRepository[]> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) throw new Error(t('git.unavailable'));
+    const git = extension.isActive ? extension.exports : await extension.activate();
+    if (!git.enabled) throw new Error(t('git.unavailable'));
+    const repositories = git.getAPI(1).repositories;
+    if (repositories.length === 0) throw new Error(t('git.noRepository'));
+    return repositories;
+}
+
+/** 多个仓库时在标题中加上仓库文件夹名 */
+function repositoryTitle(repository: GitRepository, count: number, title: string): string {
+    return count > 1 ? `${title} (${path.basename(repository.rootUri.fsPath)})` : title;
+}
+
+function relativeTo(repository: GitRepository, uri: vscode.Uri): string {
+    return path.relative(repository.rootUri.fsPath, uri.fsPath).split(path.sep).join('/');
+}
+
+interface FileDiff {
+    path: string;
+    text: string;
+    added: number;
+    removed: number;
+}
+
+/** 按文件拆分 git diff 的输出 */
+function splitDiff(diff: string): FileDiff[] {
+    const files: FileDiff[] = [];
+    for (const part of diff.split(/^(?=diff --git )/m)) {
+        if (!part.trim()) continue;
+        const header = part.match(/^diff --git a\/(.*?) b\/(.*)$/m);
+        let added = 0;
+        let removed = 0;
+        for (const line of part.split('\n')) {
+            if (line.startsWith('+') && !line.startsWith('+++')) added++;
+            else if (line.startsWith('-') && !line.startsWith('---')) removed++;
+        }
+        files.push({ path: header ? header[2] : '', text: part.replace(/\n+$/, ''), added, removed });
+    }
+    return files;
+}
+
+/**
+ * 在预算内生成 diff 文本。超出预算时从最小的文件开始保留完整的 diff，
+ * 其余文件只列出路径和增删行数。
+ */
+export function summarizeDiff(diff: string, budget: number, estimate: (text: string) => number): { text: string, truncated: boolean } {
+    const fenced = (text: string) => `\`\`\`diff\n${text}\n\`\`\`\n`;
+    if (estimate(fenced(diff.trim())) <= budget) return { text: fenced(diff.trim()), truncated: false };
+
+    const files = splitDiff(diff);
+    const summaryLine = (file: FileDiff) => `- ${file.path} (+${file.added} -${file.removed})`;
+    let available = budget - estimate(fenced('')) - estimate(`${t('git.diffSummary')}:\n${files.map(summaryLine).join('\n')}\n`);
+    const full = new Set<FileDiff>();
+    for (const file of [...files].sort((a, b) => a.text.length - b.text.length)) {
+        const cost = estimate(file.text + '\n') - estimate(summaryLine(file) + '\n');
+        if (cost > available) break;
+        full.add(file);
+        available -= cost;
+    }
+
+    const summarized = files.filter(f => !full.has(f));
+    let text = full.size > 0 ? fenced(files.filter(f => full.has(f)).map(f => f.text).join('\n')) : '';
+    text += `${t('git.diffSummary')}:\n${summarized.map(summaryLine).join('\n')}\n`;
+    return { text, truncated: true };
+}
+
+/** 变更文件列表以及暂存区和工作区的 diff */
+export async function gitChangesSection(budget: number, estimate: (text: string) => number): Promise<GitSection> {
+    let repositories: GitRepository[];
+    try {
+        repositories = await getRepositories();
+    } catch (e: any) {
+        return { text: '', truncated: false, skipped: e.message };
+    }
+
+    let text = '';
+    let truncated = false;
+    let remaining = budget;
+    let error: string | undefined;
+    for (const repository of repositories) {
+        const { indexChanges, workingTreeChanges } = repository.state;
+        if (indexChanges.length === 0 && workingTreeChanges.length === 0) continue;
+
+        const fileLines = [
+            ...indexChanges.map(c => `${STATUS_LETTERS[c.status] ?? 'U'}  ${relativeTo(repository, c.uri)} (${t('git.staged')})`),
+            ...workingTreeChanges.map(c => `${STATUS_LETTERS[c.status] ?? 'U'}  ${relativeTo(repository, c.uri)}`)
+        ];
+        let part = `${repositoryTitle(repository, repositories.length, t('git.changedFiles'))}:\n${fileLines.join('\n')}\n\n`;
+        // 暂存区和工作区的 diff 平分剩余预算
+        for (const [cached, title] of [[true, t('git.stagedDiff')], [false, t('git.unstagedDiff')]] as const) {
+            let diff: string;
+            try {
+                diff = await repository.diff(cached);
+            } catch (e: any) {
+                // 例如还没有任何提交的仓库中 git diff --cached 会失败
+                error = e.message;
+                continue;
+            }
+            if (!diff.trim()) continue;
+            const header = `${title}:\n`;
+            const share = Math.floor((remaining - estimate(part)) / (cached && workingTreeChanges.length > 0 ? 2 : 1)) - estimate(header);
+            const summary = summarizeDiff(diff, share, estimate);
+            part += `${header}${summary.text}\n`;
+            truncated = truncated || summary.truncated;
+        }
+        text += part;
+        remaining -= estimate(part);
+    }
+    if (!text && error) return { text: '', truncated: false, skipped: t('git.failed', error) };
+    return { text, truncated };
+}
+
+/** 最近 count 条提交的信息 */
+export async function gitLogSection(count: number, budget: number, estimate: (text: string) => number): Promise<GitSection> {
+    let repositories: GitRepository[];
+    try {
+        repositories = await getRepositories();
+    } catch (e: any) {
+        return { text: '', truncated: false, skipped: e.message };
+    }
+
+    let text = '';
+    let truncated = false;
+    let error: string | undefined;
+    for (const repository of repositories) {
+        let commits: GitCommit[];
+        try {
+            commits = await repository.log({ maxEntries: count });
+        } catch (e: any) {
+            // 还没有任何提交的仓库中 git log 会失败
+            error = e.message;
+            continue;
+        }
+        let part = `${repositoryTitle(repository, repositories.length, t('git.recentCommits', count))}:\n`;
+        for (const commit of commits) {
+            const [subject, ...body] = commit.message.trim().split('\n');
+            const date = commit.authorDate ? new Date(commit.authorDate).toISOString().substring(0, 10) : '';
+            const entry = [`- ${commit.hash.substring(0, 7)} ${date} ${commit.authorName ?? ''}: ${subject}`.replace(/ +/g, ' '),
+                ...body.filter(line => line.trim()).map(line => `  ${line}`)].join('\n') + '\n';
+            if (estimate(text + part + entry) > budget) {
+                truncated = true;
+                break;
+            }
+            part += entry;
+        }
+        text += `${part}\n`;
+    }
+    if (!text && error) return { text: '', truncated: false, skipped: t('git.failed', error) };
+    return { text, truncated };
+}
+
+/** 工作区 (包含未提交的修改) 相对于 ref 与 HEAD 的合并基点的 diff，即当前分支上的全部改动 */
+export async function gitBranchDiffSection(ref: string, budget: number, estimate: (text: string) => number): Promise<GitSection> {
+    let repositories: GitRepository[];
+    try {
+        repositories = await getRepositories();
+    } catch (e: any) {
+        return { text: '', truncated: false, skipped: e.message };
+    }
+
+    let text = '';
+    let truncated = false;
+    let remaining = budget;
+    for (const repository of repositories) {
+        let diff: string;
+        try {
+            const base = await repository.getMergeBase(ref, 'HEAD') ?? ref;
+            diff = await repository.diffWith(base);
+        } catch {
+            // 其他仓库中可能没有这个分支
+            continue;
+        }
+        if (!diff.trim()) continue;
+        const header = `${repositoryTitle(repository, repositories.length, t('git.branchDiff', ref))}:\n`;
+        const summary = summarizeDiff(diff, remaining - estimate(header), estimate);
+        const part = `${header}${summary.text}\n`;
+        text += part;
+        remaining -= estimate(part);
+        truncated = truncated || summary.truncated;
+    }
+    if (!text) return { text: '', truncated: false, skipped: t('git.noDiff', ref) };
+    return { text, truncated };
+}
+
+/** 所有仓库中的本地和远程分支名称，用于选择比较的分支 */
+export async function listBranches(): Promise<string[]> {
+    const names = new Set<string>();
+    for (const repository of await getRepositories()) {
+        for (const branch of await repository.getBranches({ remote: true })) {
+            if (branch.name && !branch.name.endsWith('/HEAD')) names.add(branch.name);
+        }
+    }
+    return Array.from(names);
+}
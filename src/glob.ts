@@ -0,0 +1,69 @@
+/**
+ * 将 glob 模式转换为正则表达式。支持 `**`、`*`、`?`、`[...]` 和 `{a,b}`。
+ * 不含 `/` 的模式匹配任意层级下的文件名 (与 .gitignore 的行为一致)。
+ * ignoreCase 为 true 时不区分大小写 (用于 Windows、macOS 等大小写不敏感的文件系统)。
+ */
+export function globToRegExp(pattern: string, ignoreCase = false): RegExp {
+    let glob = pattern.replace(/\\/g, '/');
+    if (glob.startsWith('/')) {
+        glob = glob.substring(1);
+    } else if (!glob.replace(/\/$/, '').includes('/')) {
+        glob = '**/' + glob;
+    }
+
+    let re = '';
+    let inGroup = false;
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === '*') {
+            if (glob[i + 1] === '*') {
+                // "**/" 匹配零个或多个目录，末尾的 "**" 匹配任意内容
+                if (glob[i + 2] === '/') {
+                    re += '(?:.*/)?';
+                    i += 2;
+                } else if (i + 2 === glob.length && re.endsWith('/')) {
+                    // 末尾的 "/**" 也匹配目录本身，例如 ".git/**" 匹配 ".git"
+                    re = re.substring(0, re.length - 1) + '(?:/.*)?';
+                    i += 1;
+                } else {
+                    re += '.*';
+                    i += 1;
+                }
+            } else {
+                re += '[^/]*';
+            }
+        } else if (c === '?') {
+            re += '[^/]';
+        } else if (c === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                re += '\\[';
+            } else {
+                re += '[' + glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+                i = end;
+            }
+        } else if (c === '{') {
+            inGroup = true;
+            re += '(?:';
+        } else if (c === '}' && inGroup) {
+            inGroup = false;
+            re += ')';
+        } else if (c === ',' && inGroup) {
+            re += '|';
+        } else {
+            re += c.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+
+    // 以 "/" 结尾的模式只匹配目录，这里将其视为匹配该目录下的所有内容
+    if (re.endsWith('/')) {
+        re += '.*';
+    }
+    return new RegExp(`^${re}(?:/.*)?$`, ignoreCase ? 'i' : '');
+}
+
+/** 判断相对路径 (使用 "/" 分隔) 是否匹配任一 glob 模式 */
+export function matchesAnyGlob(relativePath: string, patterns: readonly string[], ignoreCase = false): string | undefined {
+    const normalized = relativePath.replace(/\\/g, '/');
+    return patterns.find(p => globToRegExp(p, ignoreCase).test(normalized));
+}
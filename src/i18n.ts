@@ -0,0 +1,615 @@
+import * as vscode from 'vscode';
+
+export type UiLanguage = 'zh-cn' | 'en';
+
+const zhCN = {
+    // 会话与历史
+    'welcome': '欢迎使用 Manual AI Agent。<br>1. 输入需求并点击 "Copy Prompt"。<br>2. 粘贴 AI 回复并点击 "Apply Changes"。',
+    'history.cleared': '🗑️ 历史记录已清空。',
+    'session.default': '默认会话',
+    'session.newPrompt': '新会话名称',
+    'session.newValue': '会话 {0}',
+    'session.new': '$(add) 新建会话',
+    'session.rename': '重命名',
+    'session.renamePrompt': '重命名会话',
+    'session.delete': '删除',
+    'session.deleteConfirm': '确定删除会话 "{0}"？',
+    'session.pickPlaceholder': '选择要切换的会话',
+    'session.replyCount': '{0} 条 AI 回复',
+    'transcript.user': '用户',
+    'transcript.ai': 'AI',
+    'transcript.system': '系统',
+    'transcript.error': '错误',
+    'transcript.action': '操作',
+    'transcript.risk': '风险: {0}',
+    'transcript.output': '输出',
+    'transcript.exportedAt': '创建于 {0}，导出于 {1}',
+    'transcript.saved': '对话记录已导出到 {0}',
+    'transcript.exportFailed': '导出对话记录失败: {0}',
+    'transcript.importFailed': '导入对话记录失败: {0}',
+    'transcript.invalid': '不是有效的对话记录 ({0})',
+    'transcript.notTranscript': '缺少 format 或 history 字段',
+    'transcript.unsupportedVersion': '不支持的版本 {0}',
+    'transcript.badMessage': '第 {0} 条消息格式不正确',
+    'transcript.importedName': '{0} (导入)',
+    'transcript.imported': '已从 {0} 导入 {1} 条消息。',
+
+    // 编辑器命令
+    'editor.instruction.ask': '关于下面这段代码的问题：',
+    'editor.instruction.fix': '修复下面这段代码中报告的问题。',
+    'editor.instruction.tests': '为 {0} 编写测试，沿用项目中已有的测试框架和目录结构。',
+    'editor.thisCode': '下面这段代码',
+    'editor.location': '位置: {0} 第 {1}-{2} 行',
+    'editor.symbol': '所在符号: {0} ({1}，第 {2}-{3} 行)',
+    'editor.diagnostics': '此处的诊断信息:',
+    'editor.diagnostic': '- [{0}] 第 {1} 行: {2}{3}',
+    'editor.severity.error': '错误',
+    'editor.severity.warning': '警告',
+    'editor.severity.info': '信息',
+    'editor.severity.hint': '提示',
+    'editor.fixAction': '使用 Only Agent 修复',
+
+    // Copy Prompt
+    'copy.done': '✅ 已复制 Prompt',
+    'copy.withShell': ' (含 {0} 条命令输出)',
+    'copy.withToolResults': ' (含 {0} 项工具结果)',
+    'copy.withRejections': ' (含 {0} 个被拒绝的操作)',
+    'copy.withConversation': ' (含最近 {0} 轮对话)',
+    'copy.conversationOmitted': ' (省略了更早的 {0} 轮)',
+    'context.structure': '项目结构',
+    'context.openFiles': '当前打开的文件内容',
+    'context.shell': '最近执行的终端命令结果',
+    'context.toolResults': '工具执行结果',
+    'context.rejected': '用户拒绝了你之前提出的以下操作，它们没有执行，除非用户再次要求，不要重复提出',
+    'context.noWorkspace': '未打开工作区。',
+    'context.omittedLines': '... (省略 {0} 行)',
+    'context.binary': '二进制文件',
+    'context.overBudget': '超出 token 预算',
+    'context.empty': '没有内容',
+    'context.gitChanges': 'Git 变更 (暂存区与工作区)',
+    'context.gitLog': '最近 {0} 条提交',
+    'context.gitBranchDiff': '相对于 {0} 的改动',
+    'context.pickBranch': '选择要比较的分支',
+    'context.logCountPrompt': '包含最近多少条提交信息',
+    'context.logCountInvalid': '请输入 1 到 200 之间的数字',
+    'git.unavailable': 'Git 扩展不可用',
+    'git.noRepository': '工作区中没有 Git 仓库',
+    'git.staged': '已暂存',
+    'git.changedFiles': 'Git 变更文件',
+    'git.stagedDiff': '已暂存的改动 (git diff --cached)',
+    'git.unstagedDiff': '未暂存的改动 (git diff)',
+    'git.recentCommits': '最近 {0} 条提交',
+    'git.branchDiff': '相对于 {0} 的改动 (包含未提交的修改)',
+    'git.noDiff': '与 {0} 没有差异',
+    'git.failed': 'Git 命令失败: {0}',
+    'git.diffSummary': '以下文件的 diff 过长，只列出增删行数',
+    'context.noEditor': '没有活动的编辑器。',
+    'context.noSelection': '当前没有选中的内容。',
+    'context.noSymbols': '当前文件没有可用的符号。',
+    'context.pickSymbol': '选择要加入上下文的符号',
+    'context.pickFiles': '加入上下文',
+    'tree.files': '{0} 个文件',
+    'tree.more': '… 还有 {0} 项',
+    'tree.symlink': '符号链接',
+    'tree.scanLimit': '... (文件过多，仅扫描了前 {0} 项，统计可能不完整)',
+    'copy.withContext': ' (上下文 ≈ {0} tokens)',
+    'copy.contextTrimmed': ' ⚠️ 部分内容因超出预算被裁剪或跳过',
+    'provider.sent': '📤 已发送给 {0}',
+    'provider.failed': '❌ 请求模型失败: {0}',
+    'provider.cancelled': '已取消请求，未处理的回复已丢弃。',
+    'provider.error': '模型返回错误: {0}',
+    'provider.httpError': 'HTTP {0}: {1}',
+    'provider.badResponse': '无法解析模型的流式输出: {0}',
+    'provider.noModel': '未设置 only-agent.provider.model',
+    'provider.noBaseUrl': '未设置 only-agent.provider.baseUrl',
+    'provider.apiKeyPrompt': 'API Key (保存在 VS Code 的 SecretStorage 中，留空则清除)',
+    'provider.apiKeySaved': 'API Key 已保存。',
+    'provider.apiKeyCleared': 'API Key 已清除。',
+
+    // 操作解析与执行
+    'parse.noToolCall': '❌ 未识别到有效的 TOOL_CALL 指令。',
+    'parse.disabledType': '操作类型 {0} 未启用 (only-agent.enabledActions)。',
+    'parse.unknownType': '未知的操作类型: {0}',
+    'parse.missingField': '{0} 缺少必填字段 {1}',
+    'parse.unclosedFence': '{0} 的代码块没有闭合',
+    'parse.invalidJson': 'JSON 格式错误: {0}',
+    'parse.invalidUrl': '无效的 URL: {0}',
+    'parse.invalidLines': '无效的行号范围: {0}',
+    'parse.invalidCall': '❌ 无法识别的工具调用: {0}',
+    'approveAll.skippedShell': '⚠️ 已跳过 {0} 个终端命令 (不在允许列表中或存在风险，需要单独批准)。',
+    'policy.autoApproved': '🛡️ Approve All 自动执行 `{0}` (允许规则: {1}，风险: {2})',
+    'policy.skipped': '🛡️ Approve All 跳过 `{0}` (风险: {1}{2})，需要单独批准',
+    'policy.denied': '🛡️ 已禁止 `{0}` (禁止规则: {1})',
+    'policy.userApproved': '🛡️ 用户批准执行 `{0}` (风险: {1})',
+    'policy.userCancelled': '🛡️ 用户取消执行高风险命令 `{0}`',
+    'policy.highRiskConfirm': '该命令被判定为高风险: {0}\n\n{1}\n\n确定要执行吗？',
+    'policy.run': '执行',
+    'policy.risk.low': '低',
+    'policy.risk.medium': '中',
+    'policy.risk.high': '高',
+    'policy.reason.sudo': '提升权限 (sudo)',
+    'policy.reason.recursiveDelete': '递归删除',
+    'policy.reason.disk': '直接写入磁盘设备',
+    'policy.reason.gitDestructive': '不可恢复的 git 操作',
+    'policy.reason.system': '关机或重启',
+    'policy.reason.permissions': '修改权限或结束进程',
+    'policy.reason.download': '网络下载',
+    'policy.reason.install': '安装依赖包',
+    'policy.reason.gitPush': '推送到远程仓库',
+    'policy.reason.fileChange': '移动或删除文件',
+    'policy.reason.pipeToShell': '将内容通过管道交给 shell 执行',
+    'policy.reason.forkBomb': 'fork 炸弹',
+    'policy.reason.redirect': '重定向输出到文件',
+    'policy.reason.dynamic': '动态执行命令',
+    'batch.validationFailed': '❌ 批量应用已中止，没有修改任何文件。{0} 校验失败: {1}',
+    'batch.cancelled': '批量应用已取消，没有修改任何文件。',
+    'batch.applied': '✅ 已一次性应用 {0} 个操作 (涉及 {1} 个文件)。',
+    'action.failed': '执行失败: {0}',
+    'action.fileNotFound': '找不到文件: {0}',
+    'action.previewTitle': '{0} (预览: {1})',
+    'action.folderNeedsRecursive': '{0} 是文件夹，删除文件夹需要 RECURSIVE: true',
+    'action.deleteFolderConfirm': '确定删除文件夹 "{0}" 及其全部内容？',
+    'action.deleteFolderNoSnapshot': '文件夹 "{0}" 中的文件超过 {1} 个，没有拍摄快照，删除后无法撤销。仍要删除文件夹及其全部内容？',
+    'action.deleteFolder': '删除文件夹',
+    'action.targetExists': '目标已存在: {0}',
+    'action.folderExists': '文件夹已存在: {0}',
+    'action.renameFailed': '无法移动 {0}',
+    'create.exists': '文件 {0} 已存在。',
+    'create.existsWarning': '文件已存在，执行时需要选择覆盖、查看差异或跳过',
+    'create.overwrite': '覆盖',
+    'create.showDiff': '查看差异',
+    'create.skip': '跳过',
+    'shell.timedOut': '命令超时 ({0}s) 被终止',
+    'shell.exitCode': '命令以退出码 {0} 结束',
+    'shell.startFailed': '无法启动命令: {0}',
+    'shell.statusTimeout': '超时被终止',
+    'shell.statusExit': '退出码 {0}',
+    'shell.duration': '耗时 {0}s',
+    'shell.omitted': '... (省略前 {0} 行)',
+    'fetch.missingUrl': 'FETCH 缺少 URL',
+    'fetch.httpError': '请求失败: HTTP {0}',
+    'fetch.truncated': '... (内容过大，已截断)',
+    'fetch.schemeNotAllowed': '不允许的协议: {0} (允许: {1})',
+    'fetch.hostNotAllowed': '不允许的主机: {0}',
+    'fetch.timeout': '请求超时 ({0}s)',
+    'fetch.invalidUrl': '无效的 URL: {0}',
+    'fetch.tooManyRedirects': '重定向次数过多',
+    'fetch.unsupportedType': '不支持的内容类型: {0}',
+    'patch.missingDiff': 'PATCH 缺少 diff 内容',
+    'patch.applyFailed': '补丁应用失败',
+    'patch.hunkWithoutHeader': '补丁格式错误: hunk "{0}" 之前缺少 ---/+++ 文件头',
+    'patch.noHeader': '补丁中没有找到 ---/+++ 文件头',
+    'patch.noHunks': '补丁格式错误: {0} 没有任何 hunk',
+    'patch.fileExists': '文件已存在: {0}',
+    'patch.hunkFailed': 'Hunk #{0} ({1}) 无法应用到 {2}: 在第 {3} 行附近找不到匹配的上下文 (首行: "{4}")',
+    'match.emptyBefore': '原文块为空或全是空白，无法匹配。',
+    'match.notFound': '找不到原文块，无法修改。',
+    'match.ambiguous': '原文块在文件中有 {0} 处匹配，批准或预览时需要选择要修改的位置。',
+    'match.pickPlaceholder': '原文块在 {1} 中有 {0} 处匹配，选择要修改的位置',
+    'match.candidate': '位置 {0}: 第 {1} 行',
+    'tools.binaryFile': '无法读取二进制文件: {0}',
+    'tools.invalidRegex': '无效的正则表达式: {0}',
+    'tools.tooManyResults': '... (结果过多，仅显示前 {0} 条)',
+    'tools.noResults': '(没有匹配结果)',
+    'tools.emptyDir': '(空目录)',
+    'path.noWorkspace': '未打开工作区',
+    'path.outside': '拒绝访问工作区之外的路径: {0}',
+    'path.root': '拒绝修改工作区根目录: {0}',
+    'path.protected': '拒绝修改受保护的路径: {0} (规则: {1})',
+
+    // 撤销
+    'revert.noSnapshot': '该操作没有可用的快照，无法撤销。',
+    'revert.failed': '撤销失败: {0}',
+    'revert.restoreFailed': '无法恢复文件: {0}',
+    'revert.folderNotEmpty': '文件夹不为空，无法撤销创建: {0}',
+    'revert.batchEmpty': '⚠️ 该批次没有可撤销的操作。',
+    'revert.batchDone': '↺ 已撤销该批次的 {0} 个操作。',
+
+    // 多轮对话
+    'conversation.header': '当前线程中之前的对话 (按时间顺序，省略了工具调用和代码块，每条回复后列出操作的结果)',
+    'conversation.turn': '第 {0} 轮',
+    'conversation.user': '用户',
+    'conversation.ai': 'AI',
+    'conversation.actions': '操作结果',
+    'conversation.toolCall': '[工具调用: {0}]',
+    'conversation.codeElided': '[代码块，省略 {0} 行]',
+    'conversation.applied': '已执行',
+    'conversation.reverted': '已执行，随后被用户撤销',
+    'conversation.rejected': '被用户拒绝',
+    'conversation.invalid': '无效: {0}',
+    'conversation.failed': '执行失败: {0}',
+    'conversation.notRun': '尚未执行',
+    'conversation.edited': ' (执行前被用户修改)',
+    'thread.started': '🧵 已开始新的对话线程，之前的消息不再加入 Prompt。',
+    'thread.startedAt': '🧵 对话线程现在从选中的消息开始，更早的消息不再加入 Prompt。',
+
+    // 拒绝操作
+    'reject.one': '🚫 已拒绝 {0} {1}，下一次 Prompt 会告知 AI。',
+    'reject.many': '🚫 已拒绝 {0} 个操作，下一次 Prompt 会告知 AI。',
+
+    // 修改后检查
+    'verify.waiting': '$(sync~spin) 正在等待语言服务检查修改后的文件...',
+    'verify.clean': '🩺 已检查 {0} 个修改的文件，没有新的错误或警告。',
+    'verify.problems': '🩺 修改后新出现 {0} 个错误和 {1} 个警告 (检查了 {2} 个文件)。',
+    'verify.timedOut': ' 语言服务在 {0} 秒内没有完成分析，结果可能不完整。',
+    'verify.fixupInstruction': '上一轮的修改引入了下面的错误和警告。请修复它们，同时保留修改原本的意图。',
+    'verify.region': '第 {0}-{1} 行:',
+    'verify.fixupCopied': '📋 修复 Prompt 已复制到剪贴板。',
+    'verify.reportNotFound': '找不到这次检查的结果。',
+
+    // Webview
+    'ui.approveAll': '批准并执行所有指令 (终端指令仅限允许列表中的低风险命令)',
+    'ui.clear': '清除',
+    'ui.includeContext': '包含上下文:',
+    'ui.shellOutput': '命令输出',
+    'ui.conversation': '对话记录',
+    'ui.contextPanel': '上下文',
+    'ui.contextTotal': '≈ {0} / {1} tokens',
+    'ui.addCurrentFile': '+ 当前文件',
+    'ui.addSelection': '+ 选区',
+    'ui.addFiles': '+ 文件/文件夹',
+    'ui.addSymbol': '+ 符号',
+    'ui.addStructure': '+ 项目结构',
+    'ui.addOpenFiles': '+ 打开的文件',
+    'ui.addGitChanges': '+ Git 变更',
+    'ui.addGitLog': '+ 最近提交',
+    'ui.addGitBranchDiff': '+ 分支差异',
+    'ui.remove': '移除',
+    'ui.truncated': '已裁剪',
+    'ui.skipped': '已跳过: {0}',
+    'ui.placeholder': '输入需求或粘贴 AI 回复...',
+    'ui.copyPrompt': 'Copy Prompt',
+    'ui.apply': 'Apply Changes',
+    'ui.send': 'Send',
+    'ui.stop': 'Stop',
+    'ui.pendingAction': '待批准操作: {0}',
+    'ui.approve': '批准并执行',
+    'ui.preview': 'Preview',
+    'ui.openInBrowser': '在浏览器中打开',
+    'ui.completed': '✓ 已完成',
+    'ui.reverted': '↺ 已撤销',
+    'ui.revert': '↺ Revert',
+    'ui.revertBatch': '↺ Revert batch',
+    'ui.copyFixupPrompt': 'Copy Fix-up Prompt',
+    'ui.reject': '拒绝',
+    'ui.rejectAll': '拒绝其余全部',
+    'ui.rejected': '🚫 已拒绝',
+    'ui.edit': '编辑',
+    'ui.save': '保存',
+    'ui.cancel': '取消',
+    'ui.details': '查看内容',
+    'ui.edited': '(已修改)',
+    'ui.newThread': '新线程',
+    'ui.newThreadHere': '从这里开始新线程',
+    'ui.outputLines': '结果 ({0} 行)',
+    'ui.expandAll': '展开全部',
+    'ui.contextBuffer': '📎 下次 Copy Prompt 将附加 {0} 项工具结果',
+    'ui.actionError': '执行错误: {0}',
+    'ui.invalidAction': '⛔ 无效的 {0} 指令 (无法批准)',
+    'ui.matchExact': '匹配方式: 精确匹配',
+    'ui.matchWhitespace': '匹配方式: 忽略空白 (已调整缩进)',
+    'ui.matchSimilarity': '匹配方式: 相似度 {0}% (已调整缩进，请仔细检查)',
+    'ui.matchCandidates': ' · {0} 处候选',
+    'ui.risk': '风险: {0}',
+    'ui.riskLow': '低',
+    'ui.riskMedium': '中',
+    'ui.riskHigh': '高',
+    'ui.policyAllow': ' · 允许规则: {0} (Approve All 可自动执行)',
+    'ui.policyDeny': ' · 禁止规则: {0} (不能执行)'
+};
+
+export type MessageKey = keyof typeof zhCN;
+
+const en: Record<MessageKey, string> = {
+    'welcome': 'Welcome to Manual AI Agent.<br>1. Describe your request and click "Copy Prompt".<br>2. Paste the AI reply and click "Apply Changes".',
+    'history.cleared': '🗑️ History cleared.',
+    'session.default': 'Default session',
+    'session.newPrompt': 'Name of the new session',
+    'session.newValue': 'Session {0}',
+    'session.new': '$(add) New session',
+    'session.rename': 'Rename',
+    'session.renamePrompt': 'Rename session',
+    'session.delete': 'Delete',
+    'session.deleteConfirm': 'Delete session "{0}"?',
+    'session.pickPlaceholder': 'Select a session to switch to',
+    'session.replyCount': '{0} AI replies',
+    'transcript.user': 'User',
+    'transcript.ai': 'AI',
+    'transcript.system': 'System',
+    'transcript.error': 'Error',
+    'transcript.action': 'Action',
+    'transcript.risk': 'Risk: {0}',
+    'transcript.output': 'Output',
+    'transcript.exportedAt': 'Created {0}, exported {1}',
+    'transcript.saved': 'Transcript exported to {0}',
+    'transcript.exportFailed': 'Failed to export transcript: {0}',
+    'transcript.importFailed': 'Failed to import transcript: {0}',
+    'transcript.invalid': 'Not a valid transcript ({0})',
+    'transcript.notTranscript': 'missing format or history',
+    'transcript.unsupportedVersion': 'unsupported version {0}',
+    'transcript.badMessage': 'message {0} is malformed',
+    'transcript.importedName': '{0} (imported)',
+    'transcript.imported': 'Imported {1} messages from {0}.',
+
+    'editor.instruction.ask': 'Question about the following code:',
+    'editor.instruction.fix': 'Fix the problems reported in the following code.',
+    'editor.instruction.tests': 'Write tests for {0}, following the test framework and layout already used in this project.',
+    'editor.thisCode': 'the following code',
+    'editor.location': 'Location: {0}, lines {1}-{2}',
+    'editor.symbol': 'Enclosing symbol: {0} ({1}, lines {2}-{3})',
+    'editor.diagnostics': 'Diagnostics at this location:',
+    'editor.diagnostic': '- [{0}] line {1}: {2}{3}',
+    'editor.severity.error': 'error',
+    'editor.severity.warning': 'warning',
+    'editor.severity.info': 'info',
+    'editor.severity.hint': 'hint',
+    'editor.fixAction': 'Fix with Only Agent',
+
+    'copy.done': '✅ Prompt copied',
+    'copy.withShell': ' (with {0} command outputs)',
+    'copy.withToolResults': ' (with {0} tool results)',
+    'copy.withRejections': ' (with {0} rejected actions)',
+    'copy.withConversation': ' (with the last {0} turns of the conversation)',
+    'copy.conversationOmitted': ' ({0} earlier turns left out)',
+    'context.structure': 'Project structure',
+    'context.openFiles': 'Contents of open files',
+    'context.shell': 'Results of recent terminal commands',
+    'context.toolResults': 'Tool results',
+    'context.rejected': 'The user rejected these actions you proposed earlier. They were not executed; do not propose them again unless asked',
+    'context.noWorkspace': 'No workspace opened.',
+    'context.omittedLines': '... ({0} lines omitted)',
+    'context.binary': 'binary file',
+    'context.overBudget': 'over the token budget',
+    'context.empty': 'no content',
+    'context.gitChanges': 'Git changes (staged and unstaged)',
+    'context.gitLog': 'Last {0} commits',
+    'context.gitBranchDiff': 'Changes against {0}',
+    'context.pickBranch': 'Select a branch to compare against',
+    'context.logCountPrompt': 'Number of recent commit messages to include',
+    'context.logCountInvalid': 'Enter a number between 1 and 200',
+    'git.unavailable': 'Git extension is not available',
+    'git.noRepository': 'No Git repository in the workspace',
+    'git.staged': 'staged',
+    'git.changedFiles': 'Git changed files',
+    'git.stagedDiff': 'Staged changes (git diff --cached)',
+    'git.unstagedDiff': 'Unstaged changes (git diff)',
+    'git.recentCommits': 'Last {0} commits',
+    'git.branchDiff': 'Changes against {0} (including uncommitted changes)',
+    'git.noDiff': 'No differences from {0}',
+    'git.failed': 'Git command failed: {0}',
+    'git.diffSummary': 'Diffs of these files are too long, only line counts are listed',
+    'context.noEditor': 'No active editor.',
+    'context.noSelection': 'Nothing is selected.',
+    'context.noSymbols': 'The current file has no symbols.',
+    'context.pickSymbol': 'Select a symbol to add to the context',
+    'context.pickFiles': 'Add to context',
+    'tree.files': '{0} files',
+    'tree.more': '… {0} more',
+    'tree.symlink': 'symlink',
+    'tree.scanLimit': '... (too many files, only the first {0} entries were scanned; counts may be incomplete)',
+    'copy.withContext': ' (context ≈ {0} tokens)',
+    'copy.contextTrimmed': ' ⚠️ some items were trimmed or skipped to fit the budget',
+    'provider.sent': '📤 Sent to {0}',
+    'provider.failed': '❌ Model request failed: {0}',
+    'provider.cancelled': 'Request cancelled, the partial reply was discarded.',
+    'provider.error': 'The model returned an error: {0}',
+    'provider.httpError': 'HTTP {0}: {1}',
+    'provider.badResponse': 'Could not parse the streamed response: {0}',
+    'provider.noModel': 'only-agent.provider.model is not set',
+    'provider.noBaseUrl': 'only-agent.provider.baseUrl is not set',
+    'provider.apiKeyPrompt': 'API key (kept in VS Code SecretStorage, leave empty to clear)',
+    'provider.apiKeySaved': 'API key saved.',
+    'provider.apiKeyCleared': 'API key cleared.',
+
+    'parse.noToolCall': '❌ No valid TOOL_CALL found.',
+    'parse.disabledType': 'Action type {0} is not enabled (only-agent.enabledActions).',
+    'parse.unknownType': 'Unknown action type: {0}',
+    'parse.missingField': '{0} is missing the required field {1}',
+    'parse.unclosedFence': 'The code block of {0} is not closed',
+    'parse.invalidJson': 'Malformed JSON: {0}',
+    'parse.invalidUrl': 'Invalid URL: {0}',
+    'parse.invalidLines': 'Invalid line range: {0}',
+    'parse.invalidCall': '❌ Unrecognised tool call: {0}',
+    'approveAll.skippedShell': '⚠️ Skipped {0} terminal commands (not allowlisted or risky; approve them individually).',
+    'policy.autoApproved': '🛡️ Approve All ran `{0}` (allow rule: {1}, risk: {2})',
+    'policy.skipped': '🛡️ Approve All skipped `{0}` (risk: {1}{2}); approve it individually',
+    'policy.denied': '🛡️ Blocked `{0}` (deny rule: {1})',
+    'policy.userApproved': '🛡️ User approved `{0}` (risk: {1})',
+    'policy.userCancelled': '🛡️ User cancelled the high-risk command `{0}`',
+    'policy.highRiskConfirm': 'This command is classified as high risk: {0}\n\n{1}\n\nRun it anyway?',
+    'policy.run': 'Run',
+    'policy.risk.low': 'low',
+    'policy.risk.medium': 'medium',
+    'policy.risk.high': 'high',
+    'policy.reason.sudo': 'elevated privileges (sudo)',
+    'policy.reason.recursiveDelete': 'recursive delete',
+    'policy.reason.disk': 'writes to a disk device',
+    'policy.reason.gitDestructive': 'irreversible git operation',
+    'policy.reason.system': 'shutdown or reboot',
+    'policy.reason.permissions': 'changes permissions or kills processes',
+    'policy.reason.download': 'network download',
+    'policy.reason.install': 'installs packages',
+    'policy.reason.gitPush': 'pushes to a remote',
+    'policy.reason.fileChange': 'moves or deletes files',
+    'policy.reason.pipeToShell': 'pipes content into a shell',
+    'policy.reason.forkBomb': 'fork bomb',
+    'policy.reason.redirect': 'redirects output to a file',
+    'policy.reason.dynamic': 'dynamically evaluated command',
+    'batch.validationFailed': '❌ Batch aborted, no files were changed. {0} failed validation: {1}',
+    'batch.cancelled': 'Batch cancelled, no files were changed.',
+    'batch.applied': '✅ Applied {0} actions to {1} files in one edit.',
+    'action.failed': 'Action failed: {0}',
+    'action.fileNotFound': 'File not found: {0}',
+    'action.previewTitle': '{0} (Preview: {1})',
+    'action.folderNeedsRecursive': '{0} is a folder; deleting a folder requires RECURSIVE: true',
+    'action.deleteFolderConfirm': 'Delete the folder "{0}" and everything in it?',
+    'action.deleteFolderNoSnapshot': 'The folder "{0}" contains more than {1} files, so no snapshot was taken and the deletion cannot be reverted. Delete the folder and everything in it anyway?',
+    'action.deleteFolder': 'Delete folder',
+    'action.targetExists': 'Target already exists: {0}',
+    'action.folderExists': 'Folder already exists: {0}',
+    'action.renameFailed': 'Could not move {0}',
+    'create.exists': 'The file {0} already exists.',
+    'create.existsWarning': 'The file already exists; you will be asked to overwrite, compare or skip',
+    'create.overwrite': 'Overwrite',
+    'create.showDiff': 'Show Diff',
+    'create.skip': 'Skip',
+    'shell.timedOut': 'Command killed after timeout ({0}s)',
+    'shell.exitCode': 'Command exited with code {0}',
+    'shell.startFailed': 'Failed to start command: {0}',
+    'shell.statusTimeout': 'killed after timeout',
+    'shell.statusExit': 'exit code {0}',
+    'shell.duration': 'took {0}s',
+    'shell.omitted': '... ({0} earlier lines omitted)',
+    'fetch.missingUrl': 'FETCH has no URL',
+    'fetch.httpError': 'Request failed: HTTP {0}',
+    'fetch.truncated': '... (content too large, truncated)',
+    'fetch.schemeNotAllowed': 'Scheme not allowed: {0} (allowed: {1})',
+    'fetch.hostNotAllowed': 'Host not allowed: {0}',
+    'fetch.timeout': 'Request timed out ({0}s)',
+    'fetch.invalidUrl': 'Invalid URL: {0}',
+    'fetch.tooManyRedirects': 'Too many redirects',
+    'fetch.unsupportedType': 'Unsupported content type: {0}',
+    'patch.missingDiff': 'PATCH has no diff content',
+    'patch.applyFailed': 'Failed to apply patch',
+    'patch.hunkWithoutHeader': 'Malformed patch: hunk "{0}" has no preceding ---/+++ header',
+    'patch.noHeader': 'No ---/+++ file header found in patch',
+    'patch.noHunks': 'Malformed patch: {0} has no hunks',
+    'patch.fileExists': 'File already exists: {0}',
+    'patch.hunkFailed': 'Hunk #{0} ({1}) does not apply to {2}: no matching context near line {3} (first line: "{4}")',
+    'match.emptyBefore': 'The BEFORE block is empty or whitespace only and cannot be matched.',
+    'match.notFound': 'The BEFORE block was not found in the file.',
+    'match.ambiguous': 'The BEFORE block matches {0} locations; you will be asked which one to change when approving or previewing.',
+    'match.pickPlaceholder': 'The BEFORE block matches {0} locations in {1}. Choose the one to change',
+    'match.candidate': 'Location {0}: line {1}',
+    'tools.binaryFile': 'Cannot read binary file: {0}',
+    'tools.invalidRegex': 'Invalid regular expression: {0}',
+    'tools.tooManyResults': '... (too many results, showing the first {0})',
+    'tools.noResults': '(no matches)',
+    'tools.emptyDir': '(empty directory)',
+    'path.noWorkspace': 'No workspace opened',
+    'path.outside': 'Refusing to access a path outside the workspace: {0}',
+    'path.root': 'Refusing to modify a workspace root: {0}',
+    'path.protected': 'Refusing to modify a protected path: {0} (rule: {1})',
+
+    'revert.noSnapshot': 'No snapshot is available for this action, it cannot be reverted.',
+    'revert.failed': 'Revert failed: {0}',
+    'revert.restoreFailed': 'Failed to restore file: {0}',
+    'revert.folderNotEmpty': 'The folder is not empty, cannot undo its creation: {0}',
+    'revert.batchEmpty': '⚠️ Nothing to revert in this batch.',
+    'revert.batchDone': '↺ Reverted {0} actions of this batch.',
+
+    'conversation.header': 'Previous conversation in this thread (oldest first; tool calls and code blocks are elided, the result of each action is listed after the reply)',
+    'conversation.turn': 'Turn {0}',
+    'conversation.user': 'User',
+    'conversation.ai': 'Assistant',
+    'conversation.actions': 'Action results',
+    'conversation.toolCall': '[tool call: {0}]',
+    'conversation.codeElided': '[code block, {0} lines elided]',
+    'conversation.applied': 'applied',
+    'conversation.reverted': 'applied, then reverted by the user',
+    'conversation.rejected': 'rejected by the user',
+    'conversation.invalid': 'invalid: {0}',
+    'conversation.failed': 'failed: {0}',
+    'conversation.notRun': 'not run yet',
+    'conversation.edited': ' (edited by the user before running)',
+    'thread.started': '🧵 Started a new thread, earlier messages are no longer included in prompts.',
+    'thread.startedAt': '🧵 The thread now starts at the selected message, earlier messages are no longer included in prompts.',
+
+    'reject.one': '🚫 Rejected {0} {1}, the AI will be told in the next prompt.',
+    'reject.many': '🚫 Rejected {0} actions, the AI will be told in the next prompt.',
+
+    'verify.waiting': '$(sync~spin) Waiting for language servers to check the changed files...',
+    'verify.clean': '🩺 Checked {0} changed files: no new errors or warnings.',
+    'verify.problems': '🩺 The changes introduced {0} errors and {1} warnings ({2} files checked).',
+    'verify.timedOut': ' Language servers did not settle within {0} seconds, the results may be incomplete.',
+    'verify.fixupInstruction': 'The previous changes introduced the errors and warnings below. Fix them while keeping the intent of those changes.',
+    'verify.region': 'Lines {0}-{1}:',
+    'verify.fixupCopied': '📋 Fix-up prompt copied to the clipboard.',
+    'verify.reportNotFound': 'The result of this check was not found.',
+
+    'ui.approveAll': 'Approve All (terminal commands only if allowlisted and low risk)',
+    'ui.clear': 'Clear',
+    'ui.includeContext': 'Include context:',
+    'ui.shellOutput': 'Command output',
+    'ui.conversation': 'Conversation',
+    'ui.contextPanel': 'Context',
+    'ui.contextTotal': '≈ {0} / {1} tokens',
+    'ui.addCurrentFile': '+ Current file',
+    'ui.addSelection': '+ Selection',
+    'ui.addFiles': '+ Files/folders',
+    'ui.addSymbol': '+ Symbol',
+    'ui.addStructure': '+ Project structure',
+    'ui.addOpenFiles': '+ Open files',
+    'ui.addGitChanges': '+ Git changes',
+    'ui.addGitLog': '+ Recent commits',
+    'ui.addGitBranchDiff': '+ Branch diff',
+    'ui.remove': 'Remove',
+    'ui.truncated': 'trimmed',
+    'ui.skipped': 'skipped: {0}',
+    'ui.placeholder': 'Describe your request or paste the AI reply...',
+    'ui.copyPrompt': 'Copy Prompt',
+    'ui.apply': 'Apply Changes',
+    'ui.send': 'Send',
+    'ui.stop': 'Stop',
+    'ui.pendingAction': 'Pending action: {0}',
+    'ui.approve': 'Approve and run',
+    'ui.preview': 'Preview',
+    'ui.openInBrowser': 'Open in browser',
+    'ui.completed': '✓ Done',
+    'ui.reverted': '↺ Reverted',
+    'ui.revert': '↺ Revert',
+    'ui.revertBatch': '↺ Revert batch',
+    'ui.copyFixupPrompt': 'Copy Fix-up Prompt',
+    'ui.reject': 'Reject',
+    'ui.rejectAll': 'Reject all remaining',
+    'ui.rejected': '🚫 Rejected',
+    'ui.edit': 'Edit',
+    'ui.save': 'Save',
+    'ui.cancel': 'Cancel',
+    'ui.details': 'Show contents',
+    'ui.edited': '(edited)',
+    'ui.newThread': 'New thread',
+    'ui.newThreadHere': 'New thread from here',
+    'ui.outputLines': 'Result ({0} lines)',
+    'ui.expandAll': 'Expand all',
+    'ui.contextBuffer': '📎 {0} tool results will be attached to the next Copy Prompt',
+    'ui.actionError': 'Error: {0}',
+    'ui.invalidAction': '⛔ Invalid {0} call (cannot be approved)',
+    'ui.matchExact': 'Match: exact',
+    'ui.matchWhitespace': 'Match: whitespace-insensitive (indentation adjusted)',
+    'ui.matchSimilarity': 'Match: {0}% similar (indentation adjusted, review carefully)',
+    'ui.matchCandidates': ' · {0} candidates',
+    'ui.risk': 'Risk: {0}',
+    'ui.riskLow': 'low',
+    'ui.riskMedium': 'medium',
+    'ui.riskHigh': 'high',
+    'ui.policyAllow': ' · allow rule: {0} (runs under Approve All)',
+    'ui.policyDeny': ' · deny rule: {0} (blocked)'
+};
+
+const messages: Record<UiLanguage, Record<MessageKey, string>> = { 'zh-cn': zhCN, en };
+
+/** 界面语言：only-agent.uiLanguage 为 auto 时跟随 VS Code 的显示语言 */
+export function getUiLanguage(): UiLanguage {
+    const configured = vscode.workspace.getConfiguration('only-agent').get<string>('uiLanguage', 'auto');
+    if (configured === 'zh-cn' || configured === 'en') return configured;
+    return vscode.env.language.toLowerCase().startsWith('zh') ? 'zh-cn' : 'en';
+}
+
+/** 取得当前界面语言的文本，{0}、{1} 等占位符依次替换为参数 */
+export function t(key: MessageKey, ...args: (string | number)[]): string {
+    const text = messages[getUiLanguage()][key];
+    return text.replace(/\{(\d+)\}/g, (m, index: string) => {
+        const value = args[parseInt(index, 10)];
+        return value === undefined ? m : String(value);
+    });
+}
+
+/** Webview 使用的文本 (键名去掉 "ui." 前缀) */
+export function webviewStrings(): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [key, text] of Object.entries(messages[getUiLanguage()])) {
+        if (key.startsWith('ui.')) result[key.substring(3)] = text;
+    }
+    return result;
+}
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { t } from './i18n';
+import { BlockMatch } from './matcher';
+
+/**
+ * 在编辑器中高亮 BEFORE 块的所有候选位置，并让用户选择要修改的位置。
+ * 在选择列表中移动时会滚动到对应位置并突出显示。返回候选位置的下标，取消时返回 undefined。
+ */
+export async function pickMatch(uri: vscode.Uri, matches: BlockMatch[]): Promise<number | undefined> {
+    const doc = await vscode.workspace.openTextDocument(uri);
+    const editor = await vscode.window.showTextDocument(doc, { preview: true, preserveFocus: true });
+    const ranges = matches.map(m => new vscode.Range(doc.positionAt(m.start), doc.positionAt(m.end)));
+
+    const allDecoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('editor.findMatchHighlightBackground'),
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.findMatchForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Center
+    });
+    const activeDecoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('editor.findMatchBackground'),
+        border: '1px solid',
+        borderColor: new vscode.ThemeColor('editor.findMatchBorder')
+    });
+    editor.setDecorations(allDecoration, ranges);
+
+    type MatchItem = vscode.QuickPickItem & { index: number };
+    const quickPick = vscode.window.createQuickPick<MatchItem>();
+    quickPick.placeholder = t('match.pickPlaceholder', matches.length, vscode.workspace.asRelativePath(doc.uri));
+    quickPick.items = matches.map((m, index) => ({
+        label: t('match.candidate', index + 1, m.line + 1),
+        description: m.strategy === 'similarity' ? `${Math.round(m.score * 100)}%` : undefined,
+        detail: doc.lineAt(m.line).text.trim(),
+        index
+    }));
+
+    const highlight = (item: MatchItem | undefined) => {
+        if (!item) return;
+        editor.setDecorations(activeDecoration, [ranges[item.index]]);
+        editor.revealRange(ranges[item.index], vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    };
+    quickPick.onDidChangeActive(items => highlight(items[0]));
+
+    return new Promise<number | undefined>(resolve => {
+        let picked: number | undefined;
+        quickPick.onDidAccept(() => {
+            picked = quickPick.selectedItems[0]?.index;
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            allDecoration.dispose();
+            activeDecoration.dispose();
+            quickPick.dispose();
+            resolve(picked);
+        });
+        quickPick.show();
+    });
+}
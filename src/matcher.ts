@@ -0,0 +1,169 @@
+import { t } from './i18n';
+
+/** BEFORE 块的匹配方式：精确匹配、忽略空白的逐行匹配、按相似度打分的匹配 */
+export type MatchStrategy = 'exact' | 'whitespace' | 'similarity';
+
+/** BEFORE 块在原文中的一个候选位置 (字符偏移) */
+export interface BlockMatch {
+    start: number;
+    end: number;
+    /** 候选位置起始行 (从 0 开始) */
+    line: number;
+    strategy: MatchStrategy;
+    /** 相似度 (0-1)，精确匹配和忽略空白的匹配为 1 */
+    score: number;
+}
+
+/** 相似度匹配的最低分数 */
+const SIMILARITY_THRESHOLD = 0.8;
+/** 与最高分相差不超过这个值的候选位置都视为同样可信 */
+const SIMILARITY_TIE = 0.02;
+/** 超过这个比较次数时，只对含有相同行的窗口计算相似度 */
+const MAX_FULL_COMPARISONS = 200000;
+const TAB_SIZE = 4;
+
+function getLineStarts(text: string): number[] {
+    const starts = [0];
+    const lineBreak = /\r?\n/g;
+    let m;
+    while ((m = lineBreak.exec(text)) !== null) {
+        starts.push(m.index + m[0].length);
+    }
+    return starts;
+}
+
+/** 去掉首尾空行 */
+function trimBlankLines(lines: string[]): string[] {
+    let start = 0;
+    let end = lines.length - 1;
+    while (start <= end && lines[start].trim() === '') start++;
+    while (end >= start && lines[end].trim() === '') end--;
+    return lines.slice(start, end + 1);
+}
+
+function normalizeLine(line: string): string {
+    return line.trim().replace(/\s+/g, ' ');
+}
+
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function lineSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (!a || !b || a.length * b.length > 250000) return 0;
+    return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * 查找 BEFORE 块的所有候选位置，依次尝试：
+ * 1. 精确匹配
+ * 2. 逐行匹配，忽略首尾空行、缩进和行内多余的空白
+ * 3. 逐行相似度打分，只保留不低于阈值且与最高分接近的位置
+ * 返回第一种有结果的方式找到的全部候选位置，多于一个时表示有歧义。
+ */
+export function findMatches(text: string, before: string): BlockMatch[] {
+    const searchLines = trimBlankLines(before.split(/\r?\n/)).map(normalizeLine);
+    if (searchLines.length === 0) {
+        throw new Error(t('match.emptyBefore'));
+    }
+    const lineStarts = getLineStarts(text);
+    const lineOf = (offset: number) => {
+        let line = 0;
+        while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+        return line;
+    };
+
+    // 1. 精确匹配
+    const exact: BlockMatch[] = [];
+    for (let offset = text.indexOf(before); offset !== -1; offset = text.indexOf(before, offset + 1)) {
+        exact.push({ start: offset, end: offset + before.length, line: lineOf(offset), strategy: 'exact', score: 1 });
+    }
+    if (exact.length > 0) return exact;
+
+    const docLines = text.split(/\r?\n/);
+    const normalizedDoc = docLines.map(normalizeLine);
+    const count = searchLines.length;
+    const toMatch = (i: number, strategy: MatchStrategy, score: number): BlockMatch => {
+        const last = i + count - 1;
+        return { start: lineStarts[i], end: lineStarts[last] + docLines[last].length, line: i, strategy, score };
+    };
+
+    // 2. 忽略空白的逐行匹配
+    const whitespace: BlockMatch[] = [];
+    for (let i = 0; i <= docLines.length - count; i++) {
+        if (searchLines.every((line, j) => normalizedDoc[i + j] === line)) {
+            whitespace.push(toMatch(i, 'whitespace', 1));
+        }
+    }
+    if (whitespace.length > 0) return whitespace;
+
+    // 3. 相似度匹配
+    const fullScan = (docLines.length - count + 1) * count <= MAX_FULL_COMPARISONS;
+    const searchSet = new Set(searchLines);
+    const scored: BlockMatch[] = [];
+    for (let i = 0; i <= docLines.length - count; i++) {
+        if (!fullScan && !normalizedDoc.slice(i, i + count).some(line => searchSet.has(line))) continue;
+        let total = 0;
+        for (let j = 0; j < count; j++) {
+            total += lineSimilarity(normalizedDoc[i + j], searchLines[j]);
+        }
+        const score = total / count;
+        if (score >= SIMILARITY_THRESHOLD) scored.push(toMatch(i, 'similarity', score));
+    }
+    if (scored.length === 0) {
+        throw new Error(t('match.notFound'));
+    }
+
+    // 只保留接近最高分且互不重叠的位置
+    const best = Math.max(...scored.map(m => m.score));
+    const result: BlockMatch[] = [];
+    for (const match of scored.sort((a, b) => b.score - a.score)) {
+        if (match.score < best - SIMILARITY_TIE) break;
+        if (!result.some(m => match.start < m.end && m.start < match.end)) result.push(match);
+    }
+    return result.sort((a, b) => a.start - b.start);
+}
+
+function indentWidth(indent: string): number {
+    let width = 0;
+    for (const c of indent) width += c === '\t' ? TAB_SIZE - width % TAB_SIZE : 1;
+    return width;
+}
+
+function leadingWhitespace(line: string): string {
+    return line.match(/^[ \t]*/)![0];
+}
+
+/**
+ * 计算替换匹配位置的文本。精确匹配时原样使用 AFTER；
+ * 模糊匹配时去掉 AFTER 的首尾空行，并把缩进换算到匹配位置的缩进 (保持 AFTER 内部的相对缩进)。
+ */
+export function getReplacement(text: string, match: BlockMatch, before: string, after: string): string {
+    if (match.strategy === 'exact') return after;
+
+    const firstNonBlank = (lines: string[]) => lines.find(line => line.trim() !== '') ?? '';
+    const docIndent = leadingWhitespace(firstNonBlank(text.substring(match.start, match.end).split(/\r?\n/)));
+    const beforeIndent = leadingWhitespace(firstNonBlank(before.split(/\r?\n/)));
+    const delta = indentWidth(docIndent) - indentWidth(beforeIndent);
+    const useTabs = docIndent.includes('\t') || (docIndent === '' && /^\t/m.test(text));
+
+    return trimBlankLines(after.split(/\r?\n/)).map(line => {
+        if (line.trim() === '') return '';
+        const indent = leadingWhitespace(line);
+        const width = Math.max(0, indentWidth(indent) + delta);
+        const newIndent = useTabs
+            ? '\t'.repeat(Math.floor(width / TAB_SIZE)) + ' '.repeat(width % TAB_SIZE)
+            : ' '.repeat(width);
+        return newIndent + line.substring(indent.length);
+    }).join('\n');
+}
+
@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+import { URL } from 'url';
+import { t } from './i18n';
+
+/** clipboard: 复制 Prompt、手动粘贴回复 (默认)；openai: OpenAI 兼容的 chat completions 接口；ollama: Ollama 的 /api/chat 接口 */
+export type ProviderMode = 'clipboard' | 'openai' | 'ollama';
+
+export interface ProviderSettings {
+    mode: ProviderMode;
+    baseUrl: string;
+    model: string;
+    /** 连续这么久没有收到数据时中止请求 */
+    timeoutMs: number;
+}
+
+/** API Key 在 SecretStorage 中的键名 */
+export const API_KEY_SECRET = 'only-agent.provider.apiKey';
+
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+export function getProviderSettings(): ProviderSettings {
+    const config = vscode.workspace.getConfiguration('only-agent.provider');
+    return {
+        mode: config.get<ProviderMode>('mode', 'clipboard'),
+        baseUrl: config.get<string>('baseUrl', '').trim().replace(/\/+$/, ''),
+        model: config.get<string>('model', '').trim(),
+        timeoutMs: config.get<number>('timeoutSeconds', 120) * 1000
+    };
+}
+
+/** 设置或清除 (输入为空时) 保存在 SecretStorage 中的 API Key */
+export async function setApiKey(secrets: vscode.SecretStorage) {
+    const key = await vscode.window.showInputBox({ prompt: t('provider.apiKeyPrompt'), password: true, ignoreFocusOut: true });
+    if (key === undefined) return;
+    if (key.trim()) {
+        await secrets.store(API_KEY_SECRET, key.trim());
+        vscode.window.showInformationMessage(t('provider.apiKeySaved'));
+    } else {
+        await secrets.delete(API_KEY_SECRET);
+        vscode.window.showInformationMessage(t('provider.apiKeyCleared'));
+    }
+}
+
+/** 请求被用户取消时抛出的错误 */
+export class ChatCancelledError extends Error {
+    constructor() {
+        super(t('provider.cancelled'));
+    }
+}
+
+/** 从一行流式输出中取出新增的文字，done 表示回复结束 */
+function parseStreamLine(mode: ProviderMode, line: string): { text?: string, done?: boolean } {
+    if (mode === 'ollama') {
+        const data = JSON.parse(line);
+        if (data.error) throw new Error(t('provider.error', String(data.error)));
+        return { text: data.message?.content, done: data.done };
+    }
+    // OpenAI 兼容接口使用 server-sent events
+    if (!line.startsWith('data:')) return {};
+    const payload = line.substring(5).trim();
+    if (payload === '[DONE]') return { done: true };
+    const data = JSON.parse(payload);
+    if (data.error) throw new Error(t('provider.error', data.error.message ?? JSON.stringify(data.error)));
+    return { text: data.choices?.[0]?.delta?.content ?? undefined };
+}
+
+/** 根据设置得到请求地址，缺少模型或地址时抛出错误 */
+export function getEndpoint(settings: ProviderSettings): URL {
+    if (!settings.model) throw new Error(t('provider.noModel'));
+    const base = settings.baseUrl || (settings.mode === 'ollama' ? DEFAULT_OLLAMA_URL : '');
+    if (!base) throw new Error(t('provider.noBaseUrl'));
+    try {
+        return new URL(base + (settings.mode === 'ollama' ? '/api/chat' : '/chat/completions'));
+    } catch {
+        throw new Error(t('fetch.invalidUrl', base));
+    }
+}
+
+/** 从错误响应中取出错误信息 */
+function errorMessage(body: string): string {
+    try {
+        const data = JSON.parse(body);
+        const error = data.error?.message ?? data.error ?? data.message;
+        if (error) return String(error);
+    } catch {
+        // 不是 JSON
+    }
+    return body.substring(0, 500);
+}
+
+/**
+ * 将 Prompt 作为一条用户消息发送给模型并流式接收回复，每收到一段文字调用 onText。
+ * 返回完整的回复；取消时抛出 ChatCancelledError。
+ */
+export function streamChat(settings: ProviderSettings, apiKey: string | undefined, prompt: string,
+    onText: (text: string) => void, token: vscode.CancellationToken): Promise<string> {
+    let url: URL;
+    try {
+        url = getEndpoint(settings);
+    } catch (e) {
+        return Promise.reject(e);
+    }
+    const body = JSON.stringify({ model: settings.model, messages: [{ role: 'user', content: prompt }], stream: true });
+    const headers: http.OutgoingHttpHeaders = {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body),
+        'User-Agent': 'only-agent'
+    };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+    const client = url.protocol === 'http:' ? http : https;
+
+    if (token.isCancellationRequested) return Promise.reject(new ChatCancelledError());
+
+    return new Promise((resolve, reject) => {
+        let reply = '';
+        let settled = false;
+        const finish = (error?: Error) => {
+            if (settled) return;
+            settled = true;
+            cancelListener.dispose();
+            if (error) reject(error); else resolve(reply);
+        };
+
+        const req = client.request(url, { method: 'POST', headers }, res => {
+            res.setEncoding('utf8');
+            if ((res.statusCode ?? 0) >= 400) {
+                let text = '';
+                res.on('data', (chunk: string) => text += chunk);
+                res.on('end', () => finish(new Error(t('provider.httpError', res.statusCode ?? 0, errorMessage(text)))));
+                return;
+            }
+            let buffer = '';
+            /** 处理完整的若干行，回复结束或出错时返回 false */
+            const handleLines = (lines: string[]): boolean => {
+                try {
+                    for (const line of lines) {
+                        if (!line.trim()) continue;
+                        const { text, done } = parseStreamLine(settings.mode, line.trim());
+                        if (text) {
+                            reply += text;
+                            onText(text);
+                        }
+                        if (done) {
+                            finish();
+                            return false;
+                        }
+                    }
+                    return true;
+                } catch (e: any) {
+                    finish(e instanceof SyntaxError ? new Error(t('provider.badResponse', e.message)) : e);
+                    return false;
+                }
+            };
+            res.on('data', (chunk: string) => {
+                if (settled) return;
+                buffer += chunk;
+                const lines = buffer.split('\n');
+                buffer = lines.pop()!;
+                if (!handleLines(lines)) res.destroy();
+            });
+            res.on('end', () => {
+                if (!settled && handleLines([buffer])) finish();
+            });
+            res.on('error', finish);
+        });
+        req.setTimeout(settings.timeoutMs, () => req.destroy(new Error(t('fetch.timeout', settings.timeoutMs / 1000))));
+        req.on('error', finish);
+        const cancelListener = token.onCancellationRequested(() => {
+            finish(new ChatCancelledError());
+            req.destroy();
+        });
+        req.end(body);
+    });
+}
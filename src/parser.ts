@@ -0,0 +1,480 @@
+import { t } from './i18n';
+import { parseUnifiedDiff } from './patch';
+import { AgentAction } from './types';
+
+type ActionType = AgentAction['type'];
+
+/** 工具调用的书写格式：{{TOOL_CALL:X}} 标记、JSON 代码块或 XML 标签 */
+export type ToolCallSyntax = 'marker' | 'json' | 'xml';
+
+interface FieldSpec {
+    name: string;
+    /** 多行内容，标记格式中写在代码块里 */
+    block?: boolean;
+    required?: boolean;
+}
+
+/** 各操作类型的字段定义，用于解析、校验以及生成 JSON/XML 格式说明 */
+export const TOOL_FIELDS: Record<ActionType, FieldSpec[]> = {
+    MODIFY: [{ name: 'FILE', required: true }, { name: 'BEFORE', block: true, required: true }, { name: 'AFTER', block: true, required: true }],
+    CREATE: [{ name: 'FILE', required: true }, { name: 'CONTENT', block: true, required: true }],
+    DELETE: [{ name: 'FILE', required: true }, { name: 'RECURSIVE' }],
+    PATCH: [{ name: 'DIFF', block: true, required: true }],
+    RENAME: [{ name: 'FILE', required: true }, { name: 'TO', required: true }, { name: 'IMPORTS' }],
+    MOVE: [{ name: 'FILE', required: true }, { name: 'TO', required: true }, { name: 'IMPORTS' }],
+    MKDIR: [{ name: 'PATH', required: true }],
+    SHELL: [{ name: 'COMMAND', required: true }, { name: 'CWD' }],
+    FETCH: [{ name: 'URL', required: true }],
+    READ: [{ name: 'FILE', required: true }, { name: 'LINES' }],
+    SEARCH: [{ name: 'QUERY', required: true }, { name: 'REGEX' }, { name: 'INCLUDE' }],
+    LIST: [{ name: 'PATH' }]
+};
+
+const KNOWN_FIELDS = new Set(Object.values(TOOL_FIELDS).flat().map(f => f.name));
+const BLOCK_FIELDS = new Set(Object.values(TOOL_FIELDS).flat().filter(f => f.block).map(f => f.name));
+
+/** 从回复中解析出的一个工具调用 */
+export interface ParsedToolCall {
+    /** 回复中写的类型，可能不是已知的操作类型 */
+    type: string;
+    fields: Map<string, string>;
+    /** 没有对应字段名的代码块 */
+    looseBlocks: string[];
+    /** 工具调用在回复中的起止位置 */
+    start: number;
+    end: number;
+    /** 结构问题，例如代码块没有闭合 */
+    problems: string[];
+}
+
+/** 转换并校验后的操作，errors 不为空时不能批准 */
+export interface ParsedAction {
+    type: string;
+    action?: Omit<AgentAction, 'id'>;
+    errors: string[];
+    snippet: string;
+}
+
+const MARKER = /^[\s*_#>]*\{\{\s*TOOL_CALL\s*:\s*(\w+)\s*\}\}[*_]*\s*(.*)$/i;
+const FENCE = /^(\s*)(`{3,}|~{3,})(.*)$/;
+/** 字段行，允许 **FILE:**、**FILE**:、### FILE: 等修饰写法 */
+const FIELD = /^\s*(?:#{1,6}\s*|[-*]\s+)?(?:\*\*|__|\*|_)?([A-Za-z]+)(?:\*\*|__|\*|_)?\s*:\s*(?:\*\*|__|\*|_)?(.*)$/;
+const SNIPPET_LINES = 6;
+const SNIPPET_CHARS = 300;
+
+function snippetOf(text: string): string {
+    const lines = text.trim().split('\n');
+    let snippet = lines.slice(0, SNIPPET_LINES).join('\n');
+    if (snippet.length > SNIPPET_CHARS) snippet = snippet.substring(0, SNIPPET_CHARS);
+    return snippet.length < text.trim().length ? snippet + '\n…' : snippet;
+}
+
+/** 去掉行内值两侧的强调符号和反引号，例如 `src/a.ts` 或 **src/a.ts** */
+function cleanInlineValue(value: string): string {
+    return value.trim().replace(/^(\*\*|__|`+)(.*)\1$/, '$2').trim();
+}
+
+/**
+ * 解析 {{TOOL_CALL:X}} 格式。逐行扫描并跟踪代码块，代码块内部的标记和字段名不会被识别，
+ * 因此内容中包含 ``` 的 Markdown 文件可以用更长的围栏 (```` 或 ~~~) 包裹。
+ */
+function parseMarkerCalls(text: string, lineStarts: number[], fieldBlocks: [number, number][]): ParsedToolCall[] {
+    const lines = text.split('\n');
+    const calls: ParsedToolCall[] = [];
+    let current: ParsedToolCall | undefined;
+    let pendingField: string | undefined;
+    /** 包着工具调用的顶层代码块的闭合行，遇到时结束当前调用 */
+    let unwrapClose = -1;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (i === unwrapClose) {
+            if (current) current.end = lineStarts[i];
+            current = undefined;
+            pendingField = undefined;
+            unwrapClose = -1;
+            continue;
+        }
+        const marker = line.match(MARKER);
+        if (marker) {
+            if (current) current.end = lineStarts[i];
+            current = { type: marker[1].toUpperCase(), fields: new Map(), looseBlocks: [], start: lineStarts[i], end: text.length, problems: [] };
+            calls.push(current);
+            pendingField = undefined;
+            if (marker[2]) {
+                // 标记后面同一行的内容 (例如 "{{TOOL_CALL:DELETE}} FILE: a.ts") 按普通行处理
+                lines[i] = marker[2];
+                i--;
+            }
+            continue;
+        }
+
+        const fence = line.match(FENCE);
+        if (fence) {
+            const [, indent, open] = fence;
+            const body: string[] = [];
+            let closed = false;
+            let j = i + 1;
+            for (; j < lines.length; j++) {
+                const close = lines[j].match(/^\s*(`{3,}|~{3,})\s*$/);
+                if (close && close[1][0] === open[0] && close[1].length >= open.length) {
+                    closed = true;
+                    break;
+                }
+                // 去掉与围栏相同的缩进 (列表中的代码块)
+                body.push(lines[j].startsWith(indent) ? lines[j].substring(indent.length) : lines[j]);
+            }
+            if (!closed) {
+                // 代码块没有闭合时，在下一个工具调用标记处结束，避免吞掉后面的工具调用
+                const next = lines.findIndex((l, k) => k > i && MARKER.test(l));
+                if (next !== -1) {
+                    body.splice(next - i - 1);
+                    j = next - 1;
+                }
+            }
+            const isFieldValue = !!current && !!pendingField && !current.fields.has(pendingField);
+            if (!isFieldValue && closed && body.some(l => MARKER.test(l))) {
+                // 模型有时把整个工具调用写在代码块里：跳过围栏，继续解析其中的标记
+                unwrapClose = j;
+                pendingField = undefined;
+                continue;
+            }
+            if (current) {
+                const content = body.join('\n');
+                if (!closed && pendingField) current.problems.push(t('parse.unclosedFence', pendingField));
+                if (isFieldValue && pendingField) {
+                    current.fields.set(pendingField, content);
+                    fieldBlocks.push([lineStarts[i], lineStarts[j] ?? text.length]);
+                } else {
+                    current.looseBlocks.push(content);
+                }
+            }
+            pendingField = undefined;
+            i = j;
+            continue;
+        }
+
+        if (!current) continue;
+        const field = line.match(FIELD);
+        if (field && KNOWN_FIELDS.has(field[1].toUpperCase())) {
+            const name = field[1].toUpperCase();
+            const value = cleanInlineValue(field[2]);
+            if (value) {
+                if (!current.fields.has(name)) current.fields.set(name, value);
+                pendingField = undefined;
+            } else {
+                pendingField = name;
+            }
+        } else if (pendingField && !BLOCK_FIELDS.has(pendingField) && line.trim()) {
+            // "FILE:" 的值写在下一行
+            if (!current.fields.has(pendingField)) current.fields.set(pendingField, cleanInlineValue(line));
+            pendingField = undefined;
+        }
+    }
+    return calls;
+}
+
+function jsonValueToString(value: unknown): string {
+    if (Array.isArray(value)) return value.join('-');
+    return typeof value === 'string' ? value : String(value);
+}
+
+/** JSON 格式中的一个工具调用对象，其余属性为字段 */
+interface JsonToolCall {
+    tool_call: string;
+    [field: string]: unknown;
+}
+
+function isJsonToolCall(item: unknown): item is JsonToolCall {
+    return typeof item === 'object' && item !== null && 'tool_call' in item && typeof item.tool_call === 'string';
+}
+
+function jsonToCalls(value: unknown, start: number, end: number): ParsedToolCall[] {
+    const items: unknown[] = Array.isArray(value) ? value : [value];
+    const calls: ParsedToolCall[] = [];
+    for (const item of items) {
+        if (!isJsonToolCall(item)) continue;
+        const fields = new Map<string, string>();
+        for (const [key, v] of Object.entries(item)) {
+            if (key !== 'tool_call' && v !== null && v !== undefined) fields.set(key.toUpperCase(), jsonValueToString(v));
+        }
+        calls.push({ type: item.tool_call.toUpperCase(), fields, looseBlocks: [], start, end, problems: [] });
+    }
+    return calls;
+}
+
+/**
+ * 解析 JSON 格式：整个回复或 ```json 代码块中带 "tool_call" 字段的对象或对象数组。
+ * 只有 JSON 是约定的工具调用格式时才识别代码块，否则说明文字中的 JSON 示例会被当作工具调用。
+ */
+function parseJsonCalls(text: string, syntax: ToolCallSyntax): ParsedToolCall[] {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        try {
+            return jsonToCalls(JSON.parse(trimmed), 0, text.length);
+        } catch {
+            // 不是完整的 JSON，继续查找代码块
+        }
+    }
+
+    const calls: ParsedToolCall[] = [];
+    if (syntax !== 'json') return calls;
+    const blockRegex = /^(\s*)(`{3,}|~{3,})\s*json\s*\n([\s\S]*?)\n\s*\2\s*$/gim;
+    let match;
+    while ((match = blockRegex.exec(text)) !== null) {
+        if (!match[3].includes('"tool_call"')) continue;
+        const start = match.index;
+        const end = match.index + match[0].length;
+        try {
+            calls.push(...jsonToCalls(JSON.parse(match[3]), start, end));
+        } catch (e: any) {
+            calls.push({ type: 'JSON', fields: new Map(), looseBlocks: [], start, end, problems: [t('parse.invalidJson', e.message)] });
+        }
+    }
+    return calls;
+}
+
+function decodeXml(value: string): string {
+    const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+    if (cdata) return cdata[1].replace(/^\n/, '').replace(/\n$/, '');
+    return value
+        .replace(/^\n/, '').replace(/\n$/, '')
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
+
+/** 解析 XML 格式：<tool_call type="X"><file>…</file></tool_call>，多行内容可以使用 CDATA */
+function parseXmlCalls(text: string): ParsedToolCall[] {
+    const calls: ParsedToolCall[] = [];
+    const callRegex = /<tool_call\s+type\s*=\s*["']?(\w+)["']?\s*>([\s\S]*?)<\/tool_call>/gi;
+    let match;
+    while ((match = callRegex.exec(text)) !== null) {
+        const fields = new Map<string, string>();
+        const fieldRegex = /<(\w+)>([\s\S]*?)<\/\1>/g;
+        let field;
+        while ((field = fieldRegex.exec(match[2])) !== null) {
+            fields.set(field[1].toUpperCase(), decodeXml(field[2]));
+        }
+        calls.push({ type: match[1].toUpperCase(), fields, looseBlocks: [], start: match.index, end: match.index + match[0].length, problems: [] });
+    }
+    return calls;
+}
+
+/**
+ * 解析回复中的所有工具调用，按出现顺序返回。标记和 XML 格式总会识别，JSON 代码块只在 syntax 为 json 时识别。
+ * 位于标记格式字段代码块内部的 JSON/XML (例如 CREATE 的文件内容) 不会被当作工具调用。
+ */
+export function parseToolCalls(response: string, syntax: ToolCallSyntax): ParsedToolCall[] {
+    const text = response.replace(/\r\n?/g, '\n');
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') lineStarts.push(i + 1);
+    }
+
+    const fieldBlocks: [number, number][] = [];
+    const markerCalls = parseMarkerCalls(text, lineStarts, fieldBlocks);
+    const insideField = (call: ParsedToolCall) => fieldBlocks.some(([start, end]) => call.start >= start && call.start < end);
+    const structured = [...parseJsonCalls(text, syntax), ...parseXmlCalls(text)].filter(call => !insideField(call));
+    return [...markerCalls, ...structured].sort((a, b) => a.start - b.start);
+}
+
+function parseLines(value: string): { start: number; end: number } | undefined {
+    const match = value.match(/^(\d+)(?:\s*[-~,:]\s*(\d+))?$/);
+    if (!match) return undefined;
+    const range = { start: parseInt(match[1], 10), end: parseInt(match[2] ?? match[1], 10) };
+    return range.start >= 1 && range.end >= range.start ? range : undefined;
+}
+
+function isTrue(value: string | undefined): boolean {
+    return /^(true|yes|1)$/i.test(value ?? '');
+}
+
+/** 将解析结果转换为操作，并按类型校验必填字段和字段格式 */
+export function toAgentAction(call: ParsedToolCall, response: string): ParsedAction {
+    const snippet = snippetOf(response.replace(/\r\n?/g, '\n').substring(call.start, call.end));
+    const errors = [...call.problems];
+    const type = call.type as ActionType;
+    const specs = Object.prototype.hasOwnProperty.call(TOOL_FIELDS, type) ? TOOL_FIELDS[type] : undefined;
+    if (!specs) {
+        if (errors.length === 0) errors.push(t('parse.unknownType', call.type));
+        return { type: call.type, errors, snippet };
+    }
+
+    const fields = call.fields;
+    // PATCH 可以省略 DIFF: 字段名，直接使用第一个代码块
+    if (type === 'PATCH' && !fields.has('DIFF') && call.looseBlocks.length > 0) {
+        fields.set('DIFF', call.looseBlocks[0]);
+    }
+    for (const spec of specs) {
+        if (spec.required && fields.get(spec.name) === undefined) errors.push(t('parse.missingField', type, spec.name));
+    }
+    const get = (name: string) => fields.get(name);
+    const action: Omit<AgentAction, 'id'> = { type, status: 'pending' };
+
+    switch (type) {
+        case 'MODIFY':
+            action.path = get('FILE');
+            action.before = get('BEFORE');
+            action.content = get('AFTER');
+            if (action.before !== undefined && !action.before.trim()) errors.push(t('match.emptyBefore'));
+            break;
+        case 'CREATE':
+            action.path = get('FILE');
+            action.content = get('CONTENT');
+            break;
+        case 'DELETE':
+            action.path = get('FILE');
+            action.recursive = isTrue(get('RECURSIVE'));
+            break;
+        case 'RENAME':
+        case 'MOVE':
+            action.path = get('FILE');
+            action.newPath = get('TO');
+            action.updateImports = isTrue(get('IMPORTS'));
+            break;
+        case 'MKDIR':
+            action.path = get('PATH');
+            break;
+        case 'PATCH':
+            action.content = get('DIFF');
+            if (action.content !== undefined) {
+                try {
+                    action.files = parseUnifiedDiff(action.content).map(p => (p.newPath ?? p.oldPath)!);
+                } catch (e: any) {
+                    errors.push(e.message);
+                }
+            }
+            break;
+        case 'SHELL':
+            action.command = get('COMMAND');
+            action.cwd = get('CWD');
+            break;
+        case 'FETCH':
+            action.url = get('URL');
+            if (action.url) {
+                try {
+                    new URL(action.url);
+                } catch {
+                    errors.push(t('parse.invalidUrl', action.url));
+                }
+            }
+            break;
+        case 'READ':
+            action.path = get('FILE');
+            if (get('LINES')) {
+                action.range = parseLines(get('LINES')!);
+                if (!action.range) errors.push(t('parse.invalidLines', get('LINES')!));
+            }
+            break;
+        case 'SEARCH':
+            action.query = get('QUERY');
+            action.isRegex = isTrue(get('REGEX'));
+            action.include = get('INCLUDE');
+            break;
+        case 'LIST':
+            action.path = get('PATH');
+            break;
+    }
+
+    if (errors.length > 0) {
+        action.status = 'invalid';
+        action.errors = errors;
+        action.snippet = snippet;
+    }
+    return { type, action, errors, snippet };
+}
+
+/** 操作的属性对应的工具调用字段 (与 toAgentAction 相反)，类型不对的属性视为缺失 */
+function actionToFields(action: AgentAction): Map<string, string> {
+    const fields = new Map<string, string>();
+    const set = (name: string, value: unknown) => {
+        if (typeof value === 'string') fields.set(name, value);
+        else if (typeof value === 'boolean') fields.set(name, String(value));
+    };
+    const pathField = action.type === 'MKDIR' || action.type === 'LIST' ? 'PATH' : 'FILE';
+    set(pathField, action.path);
+    set('TO', action.newPath);
+    set('IMPORTS', action.updateImports);
+    set('RECURSIVE', action.recursive);
+    set('BEFORE', action.before);
+    set(action.type === 'MODIFY' ? 'AFTER' : action.type === 'PATCH' ? 'DIFF' : 'CONTENT', action.content);
+    set('COMMAND', action.command);
+    set('CWD', action.cwd);
+    set('URL', action.url);
+    set('QUERY', action.query);
+    set('REGEX', action.isRegex);
+    set('INCLUDE', action.include);
+    if (action.range !== undefined) {
+        const { start, end } = action.range;
+        fields.set('LINES', typeof start === 'number' && typeof end === 'number' ? `${start}-${end}` : String(start));
+    }
+    return fields;
+}
+
+/** 按解析时的规则重新校验已有的操作 (例如从对话记录导入的待批准操作)，返回错误信息 */
+export function validateAction(action: AgentAction): string[] {
+    const call: ParsedToolCall = { type: String(action.type), fields: actionToFields(action), looseBlocks: [], start: 0, end: 0, problems: [] };
+    return toAgentAction(call, '').errors;
+}
+
+/** 批准前可以在操作卡片中修改的字段 */
+export type ActionEdit = Partial<Pick<AgentAction, 'path' | 'newPath' | 'command' | 'url' | 'before' | 'content'>>;
+
+const EDITABLE_FIELDS = ['path', 'newPath', 'command', 'url', 'before', 'content'] as const;
+
+/** 操作字段在工具调用中的字段名，用于错误信息 */
+function toolFieldName(type: ActionType, field: keyof ActionEdit): string {
+    switch (field) {
+        case 'path': return type === 'MKDIR' || type === 'LIST' ? 'PATH' : 'FILE';
+        case 'newPath': return 'TO';
+        case 'command': return 'COMMAND';
+        case 'url': return 'URL';
+        case 'before': return 'BEFORE';
+        case 'content': return type === 'MODIFY' ? 'AFTER' : type === 'PATCH' ? 'DIFF' : 'CONTENT';
+    }
+}
+
+/**
+ * 将用户在操作卡片中的修改应用到待批准的操作，只接受操作原本就有的字段。
+ * 校验规则与解析时相同；有错误时不修改操作，返回错误信息。
+ */
+export function applyActionEdit(action: AgentAction, edit: ActionEdit): string[] {
+    const updated: AgentAction = { ...action };
+    const errors: string[] = [];
+    for (const field of EDITABLE_FIELDS) {
+        const value = edit[field];
+        if (typeof value !== 'string' || action[field] === undefined) continue;
+        if (field === 'content') {
+            updated.content = value;
+            continue;
+        }
+        if (field === 'before') {
+            if (!value.trim()) errors.push(t('match.emptyBefore'));
+            updated.before = value;
+            continue;
+        }
+        // 单行字段
+        if (!value.trim()) {
+            errors.push(t('parse.missingField', action.type, toolFieldName(action.type, field)));
+            continue;
+        }
+        updated[field] = value.trim();
+    }
+
+    if (updated.url !== undefined && updated.url !== action.url) {
+        try {
+            new URL(updated.url);
+        } catch {
+            errors.push(t('parse.invalidUrl', updated.url));
+        }
+    }
+    if (action.type === 'PATCH' && updated.content !== action.content) {
+        try {
+            updated.files = parseUnifiedDiff(updated.content ?? '').map(p => (p.newPath ?? p.oldPath)!);
+        } catch (e: any) {
+            errors.push(e.message);
+        }
+    }
+
+    if (errors.length === 0) Object.assign(action, updated);
+    return errors;
+}
@@ -0,0 +1,181 @@
+import { t } from './i18n';
+
+/** unified diff 中的一个 hunk，lines 保留 ' '、'-'、'+' 前缀 */
+export interface PatchHunk {
+    header: string;
+    oldStart: number;
+    newStart: number;
+    lines: string[];
+}
+
+/** 单个文件的补丁，路径为空表示 /dev/null (新建或删除文件) */
+export interface FilePatch {
+    oldPath?: string;
+    newPath?: string;
+    hunks: PatchHunk[];
+}
+
+const HUNK_HEADER = /^@@\s+-(\d+)(?:,\d+)?\s+\+(\d+)(?:,\d+)?\s+@@/;
+
+function parsePatchPath(line: string): string | undefined {
+    // 去掉 "--- " / "+++ " 前缀、末尾的时间戳以及 git 的 a/ b/ 前缀
+    const raw = line.substring(4).split('\t')[0].trim();
+    if (raw === '/dev/null') return undefined;
+    return raw.replace(/^[ab]\//, '');
+}
+
+/** 解析 (可包含多个文件的) unified diff 文本 */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+    const lines = diff.replace(/\r\n/g, '\n').split('\n');
+    const patches: FilePatch[] = [];
+    let current: FilePatch | undefined;
+    let hunk: PatchHunk | undefined;
+
+    const closeHunk = () => {
+        if (hunk) {
+            // 模型经常在 hunk 末尾多输出空行，这些空行不属于上下文
+            while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1] === '') hunk.lines.pop();
+            hunk = undefined;
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+            closeHunk();
+            current = { oldPath: parsePatchPath(line), newPath: parsePatchPath(lines[i + 1]), hunks: [] };
+            patches.push(current);
+            i++;
+            continue;
+        }
+
+        const header = line.match(HUNK_HEADER);
+        if (header) {
+            if (!current) throw new Error(t('patch.hunkWithoutHeader', line));
+            closeHunk();
+            hunk = { header: line.trim(), oldStart: parseInt(header[1], 10), newStart: parseInt(header[2], 10), lines: [] };
+            current.hunks.push(hunk);
+            continue;
+        }
+
+        if (!hunk) continue;
+        if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+        if (line === '' || line[0] === ' ' || line[0] === '-' || line[0] === '+') {
+            // 空行视为空白的上下文行 (不少模型会省略上下文行开头的空格)
+            hunk.lines.push(line);
+        } else {
+            closeHunk();
+        }
+    }
+    closeHunk();
+
+    if (patches.length === 0) throw new Error(t('patch.noHeader'));
+    for (const patch of patches) {
+        if (patch.hunks.length === 0 && patch.oldPath && patch.newPath && patch.oldPath === patch.newPath) {
+            throw new Error(t('patch.noHunks', patch.newPath));
+        }
+    }
+    return patches;
+}
+
+function hunkSide(lines: string[], side: 'old' | 'new'): string[] {
+    const skip = side === 'old' ? '+' : '-';
+    return lines.filter(l => l[0] !== skip).map(l => l.substring(1));
+}
+
+function linesEqual(a: string[], start: number, b: string[], loose: boolean): boolean {
+    if (start < 0 || start + b.length > a.length) return false;
+    for (let i = 0; i < b.length; i++) {
+        const x = a[start + i];
+        const y = b[i];
+        if (loose ? x.trim() !== y.trim() : x.trimEnd() !== y.trimEnd()) return false;
+    }
+    return true;
+}
+
+/** 从期望位置开始向两侧查找匹配位置，先严格比较，再忽略缩进差异 */
+function locate(fileLines: string[], oldLines: string[], expected: number, minIndex: number): number {
+    const maxIndex = fileLines.length - oldLines.length;
+    if (maxIndex < minIndex) return -1;
+    // 行号超出文件范围 (例如在文件末尾之后) 时从最近的有效位置开始查找
+    const start = Math.min(Math.max(expected, minIndex), maxIndex);
+    for (const loose of [false, true]) {
+        for (let distance = 0; distance <= maxIndex - minIndex; distance++) {
+            for (const candidate of distance === 0 ? [start] : [start - distance, start + distance]) {
+                if (candidate < minIndex || candidate > maxIndex) continue;
+                if (linesEqual(fileLines, candidate, oldLines, loose)) return candidate;
+            }
+        }
+    }
+    return -1;
+}
+
+/** 去掉 hunk 首尾最多 fuzz 行上下文 (类似 GNU patch 的 fuzz factor) */
+function trimContext(lines: string[], fuzz: number): { lines: string[], dropped: number } {
+    let start = 0;
+    let end = lines.length;
+    while (start < fuzz && start < end && lines[start][0] !== '-' && lines[start][0] !== '+') start++;
+    let droppedTail = 0;
+    while (droppedTail < fuzz && end > start && lines[end - 1][0] !== '-' && lines[end - 1][0] !== '+') {
+        end--;
+        droppedTail++;
+    }
+    return { lines: lines.slice(start, end), dropped: start };
+}
+
+/**
+ * 将单个文件的补丁应用到文本上。原文件不存在时 text 为 undefined；
+ * 返回 undefined 表示补丁删除了该文件。
+ */
+export function applyFilePatch(text: string | undefined, patch: FilePatch, fuzz = 2): string | undefined {
+    const fileName = patch.newPath ?? patch.oldPath ?? '';
+    if (!patch.newPath) return undefined;
+    if (patch.oldPath && text === undefined) throw new Error(t('action.fileNotFound', patch.oldPath));
+    if (!patch.oldPath && text) throw new Error(t('patch.fileExists', patch.newPath));
+
+    const eol = text?.includes('\r\n') ? '\r\n' : '\n';
+    const fileLines = text === undefined || text === '' ? [] : text.split(/\r?\n/);
+    const result: string[] = [];
+    let cursor = 0;
+    let offset = 0;
+
+    patch.hunks.forEach((hunk, index) => {
+        let position = -1;
+        let hunkLines = hunk.lines;
+
+        for (let f = 0; f <= fuzz && position === -1; f++) {
+            const trimmed = trimContext(hunk.lines, f);
+            const oldLines = hunkSide(trimmed.lines, 'old');
+            const expected = Math.max(0, hunk.oldStart - 1 + offset + trimmed.dropped);
+            if (oldLines.length === 0) {
+                position = Math.min(Math.max(expected, cursor), fileLines.length);
+            } else {
+                position = locate(fileLines, oldLines, expected, cursor);
+            }
+            hunkLines = trimmed.lines;
+            if (f === fuzz && position === -1) {
+                const firstLine = hunkSide(hunk.lines, 'old').find(l => l.trim() !== '') ?? '';
+                throw new Error(t('patch.hunkFailed', index + 1, hunk.header, fileName, hunk.oldStart, firstLine.trim()));
+            }
+        }
+
+        result.push(...fileLines.slice(cursor, position));
+        cursor = position;
+        for (const line of hunkLines) {
+            if (line[0] === '+') {
+                result.push(line.substring(1));
+            } else if (line[0] === '-') {
+                cursor++;
+            } else {
+                // 上下文行保留文件中的原始内容
+                result.push(fileLines[cursor]);
+                cursor++;
+            }
+        }
+        offset = result.length - cursor;
+    });
+
+    result.push(...fileLines.slice(cursor));
+    return result.join(eol);
+}
@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * 为操作预览提供虚拟文档 (only-agent-preview:)，
+ * 用于在 diff 视图中展示修改后的文件内容。
+ */
+export class ActionPreviewProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'only-agent-preview';
+
+    private readonly _contents = new Map<string, string>();
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this._contents.get(uri.toString()) ?? '';
+    }
+
+    /** 登记一份预览内容并返回对应的虚拟文档 URI */
+    public register(actionId: string, label: string, fileName: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.from({
+            scheme: ActionPreviewProvider.scheme,
+            path: `/${actionId}/${label}/${path.basename(fileName)}`
+        });
+        this._contents.set(uri.toString(), content);
+        this._onDidChange.fire(uri);
+        return uri;
+    }
+
+    public dispose() {
+        this._onDidChange.dispose();
+        this._contents.clear();
+    }
+}
@@ -0,0 +1,200 @@
+import * as vscode from 'vscode';
+import { globToRegExp } from './glob';
+import { t } from './i18n';
+
+/** 单次扫描最多读取的目录项数量，防止超大仓库卡住 */
+const MAX_SCAN_ENTRIES = 20000;
+
+/** 始终忽略的目录，没有 .gitignore 时也不会扫描 */
+const ALWAYS_IGNORED = new Set(['.git', 'node_modules']);
+
+/** .gitignore 风格的忽略规则，base 为规则文件所在目录 (相对于工作区文件夹，使用 "/" 分隔) */
+interface IgnoreRule {
+    base: string;
+    regex: RegExp;
+    negate: boolean;
+}
+
+interface TreeNode {
+    name: string;
+    isDir: boolean;
+    isLink?: boolean;
+    children: TreeNode[];
+    /** 目录下 (递归) 未被忽略的文件数 */
+    fileCount: number;
+}
+
+export interface ProjectTreeOptions {
+    /** 超过这个深度的目录折叠显示，只显示文件数 */
+    maxDepth: number;
+    /** 每个工作区文件夹最多显示的条目数 */
+    maxEntries: number;
+}
+
+/** 解析 .gitignore 格式的文本：支持注释、"!" 取反、以 "/" 开头的锚定模式和以 "/" 结尾的目录模式 */
+function parseIgnoreFile(text: string, base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const raw of text.split(/\r?\n/)) {
+        let line = raw.replace(/(?<!\\)\s+$/, '');
+        if (!line || line.startsWith('#')) continue;
+        const negate = line.startsWith('!');
+        if (negate) line = line.substring(1);
+        line = line.replace(/^\\([#!])/, '$1');
+        if (!line) continue;
+        rules.push({ base, regex: globToRegExp(line), negate });
+    }
+    return rules;
+}
+
+/** 判断路径是否被忽略，后面的规则优先 (与 git 一致)。目录路径以 "/" 结尾 */
+function isIgnored(relativePath: string, rules: readonly IgnoreRule[]): boolean {
+    let ignored = false;
+    for (const rule of rules) {
+        if (rule.base && !relativePath.startsWith(rule.base + '/')) continue;
+        const local = rule.base ? relativePath.substring(rule.base.length + 1) : relativePath;
+        if (rule.regex.test(local)) ignored = !rule.negate;
+    }
+    return ignored;
+}
+
+async function readIgnoreFile(uri: vscode.Uri, base: string): Promise<IgnoreRule[]> {
+    try {
+        return parseIgnoreFile(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString(), base);
+    } catch {
+        return [];
+    }
+}
+
+/** files.exclude 中启用的模式 (忽略带 when 条件的项) */
+function filesExcludeRules(folder: vscode.WorkspaceFolder): IgnoreRule[] {
+    const exclude = vscode.workspace.getConfiguration('files', folder.uri).get<Record<string, unknown>>('exclude', {});
+    return Object.entries(exclude)
+        .filter(([, value]) => value === true)
+        .map(([pattern]) => ({ base: '', regex: globToRegExp(pattern), negate: false }));
+}
+
+/**
+ * 扫描工作区文件夹，遵循 files.exclude、.only-agent/ignore 和各级目录中的 .gitignore。
+ * .git 和 node_modules 目录始终被忽略。
+ */
+async function scanFolder(folder: vscode.WorkspaceFolder): Promise<{ root: TreeNode, complete: boolean }> {
+    const root: TreeNode = { name: folder.name, isDir: true, children: [], fileCount: 0 };
+    const baseRules = [
+        ...filesExcludeRules(folder),
+        ...await readIgnoreFile(vscode.Uri.joinPath(folder.uri, '.only-agent', 'ignore'), '')
+    ];
+    let scanned = 0;
+
+    const walk = async (node: TreeNode, uri: vscode.Uri, relative: string, inherited: IgnoreRule[]): Promise<void> => {
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(uri);
+        } catch {
+            return;
+        }
+        const rules = entries.some(([name]) => name === '.gitignore')
+            ? [...inherited, ...await readIgnoreFile(vscode.Uri.joinPath(uri, '.gitignore'), relative)]
+            : inherited;
+
+        for (const [name, type] of entries) {
+            if (scanned >= MAX_SCAN_ENTRIES) return;
+            if (ALWAYS_IGNORED.has(name)) continue;
+            const isDir = (type & vscode.FileType.Directory) !== 0;
+            const childPath = relative ? `${relative}/${name}` : name;
+            // 以 "/" 结尾的路径才能匹配目录模式 (例如 "dist/")
+            if (isIgnored(isDir ? `${childPath}/` : childPath, rules)) continue;
+            scanned++;
+
+            const child: TreeNode = { name, isDir, children: [], fileCount: 0 };
+            node.children.push(child);
+            if (!isDir) {
+                node.fileCount++;
+            } else if (type & vscode.FileType.SymbolicLink) {
+                // 不进入符号链接目录，避免循环
+                child.isLink = true;
+            } else {
+                await walk(child, vscode.Uri.joinPath(uri, name), childPath, rules);
+                node.fileCount += child.fileCount;
+            }
+        }
+    };
+
+    await walk(root, folder.uri, '', baseRules);
+    return { root, complete: scanned < MAX_SCAN_ENTRIES };
+}
+
+function sortTree(node: TreeNode) {
+    node.children.sort((a, b) => a.isDir !== b.isDir ? (a.isDir ? -1 : 1) : a.name.localeCompare(b.name));
+    node.children.forEach(sortTree);
+}
+
+/**
+ * 按层级 (广度优先) 决定展开哪些目录：先保证浅层完整，再在条目预算内展开更深的目录，
+ * 这样大目录不会挤掉其他源码目录。
+ */
+function chooseExpanded(root: TreeNode, options: ProjectTreeOptions): Set<TreeNode> {
+    const expanded = new Set<TreeNode>([root]);
+    let shown = root.children.length;
+    let level = root.children.filter(c => c.isDir && !c.isLink);
+    for (let depth = 1; depth < options.maxDepth && level.length > 0; depth++) {
+        const next: TreeNode[] = [];
+        for (const dir of level) {
+            if (shown + dir.children.length > options.maxEntries) continue;
+            expanded.add(dir);
+            shown += dir.children.length;
+            next.push(...dir.children.filter(c => c.isDir && !c.isLink));
+        }
+        level = next;
+    }
+    return expanded;
+}
+
+function renderTree(root: TreeNode, options: ProjectTreeOptions): string {
+    const expanded = chooseExpanded(root, options);
+    const lines: string[] = [];
+
+    const render = (node: TreeNode, indent: string) => {
+        const children = node === root ? node.children.slice(0, options.maxEntries) : node.children;
+        for (const child of children) {
+            if (!child.isDir) {
+                lines.push(`${indent}${child.name}`);
+            } else if (child.isLink) {
+                lines.push(`${indent}${child.name}/ (${t('tree.symlink')})`);
+            } else {
+                lines.push(`${indent}${child.name}/ (${t('tree.files', child.fileCount)})`);
+                if (expanded.has(child)) render(child, indent + '  ');
+            }
+        }
+        if (children.length < node.children.length) {
+            lines.push(`${indent}${t('tree.more', node.children.length - children.length)}`);
+        }
+    };
+
+    render(root, '');
+    return lines.join('\n');
+}
+
+/** 读取 only-agent.structure.* 设置 */
+export function getProjectTreeOptions(): ProjectTreeOptions {
+    const config = vscode.workspace.getConfiguration('only-agent.structure');
+    return {
+        maxDepth: Math.max(1, config.get<number>('maxDepth', 4)),
+        maxEntries: Math.max(1, config.get<number>('maxEntries', 300))
+    };
+}
+
+/** 生成各工作区文件夹的目录树，目录后附带文件数，过深或过大的目录折叠显示 */
+export async function buildProjectTree(options: ProjectTreeOptions = getProjectTreeOptions()): Promise<string> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders) return t('context.noWorkspace');
+
+    const sections: string[] = [];
+    for (const folder of folders) {
+        const { root, complete } = await scanFolder(folder);
+        sortTree(root);
+        let section = `Project: ${folder.name} (${t('tree.files', root.fileCount)})\n${renderTree(root, options)}`;
+        if (!complete) section += `\n${t('tree.scanLimit', MAX_SCAN_ENTRIES)}`;
+        sections.push(section);
+    }
+    return sections.join('\n\n') + '\n';
+}
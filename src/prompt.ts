@@ -0,0 +1,330 @@
+import * as vscode from 'vscode';
+import { UiLanguage } from './i18n';
+import { TOOL_FIELDS, ToolCallSyntax, parseToolCalls } from './parser';
+import { AgentAction } from './types';
+
+export type ActionType = AgentAction['type'];
+
+export const ALL_ACTION_TYPES: ActionType[] = ['MODIFY', 'CREATE', 'DELETE', 'PATCH', 'RENAME', 'MOVE', 'MKDIR', 'SHELL', 'FETCH', 'READ', 'SEARCH', 'LIST'];
+
+/** 结果会返回给 AI 的操作类型 */
+const RESULT_ACTION_TYPES: ActionType[] = ['SHELL', 'FETCH', 'READ', 'SEARCH', 'LIST'];
+
+interface ToolDoc {
+    title: string;
+    format: string;
+    /** 格式之后的补充说明 */
+    note?: string;
+}
+
+const TOOL_DOCS: Record<UiLanguage, Record<ActionType, ToolDoc>> = {
+    'zh-cn': {
+        MODIFY: {
+            title: '修改代码',
+            format: `{{TOOL_CALL:MODIFY}}
+FILE: 文件路径
+BEFORE:
+\`\`\`
+原代码块
+\`\`\`
+AFTER:
+\`\`\`
+修改后代码块
+\`\`\``
+        },
+        CREATE: {
+            title: '创建文件',
+            format: `{{TOOL_CALL:CREATE}}
+FILE: 文件路径
+CONTENT:
+\`\`\`
+文件内容
+\`\`\``
+        },
+        DELETE: {
+            title: '删除文件或文件夹 (删除文件夹时需要加上 RECURSIVE: true)',
+            format: `{{TOOL_CALL:DELETE}}
+FILE: 文件路径`
+        },
+        PATCH: {
+            title: '补丁 (unified diff，可包含多个文件和多个 hunk，适合大文件或重复出现的代码片段)',
+            format: `{{TOOL_CALL:PATCH}}
+DIFF:
+\`\`\`diff
+--- a/文件路径
++++ b/文件路径
+@@ -起始行,行数 +起始行,行数 @@
+ 上下文行
+-删除的行
++新增的行
+\`\`\``,
+            note: '新建文件时使用 --- /dev/null，删除文件时使用 +++ /dev/null。'
+        },
+        RENAME: {
+            title: '重命名文件或文件夹 (IMPORTS 可选，为 true 时同时更新引用它的 import)',
+            format: `{{TOOL_CALL:RENAME}}
+FILE: 原路径
+TO: 新路径
+IMPORTS: true`
+        },
+        MOVE: {
+            title: '移动文件或文件夹 (TO 以 / 结尾时移动到该目录下，IMPORTS 同 RENAME)',
+            format: `{{TOOL_CALL:MOVE}}
+FILE: 原路径
+TO: 目标路径
+IMPORTS: true`
+        },
+        MKDIR: {
+            title: '创建文件夹',
+            format: `{{TOOL_CALL:MKDIR}}
+PATH: 文件夹路径`
+        },
+        SHELL: {
+            title: '终端指令 (CWD 可选，默认为工作区根目录)',
+            format: `{{TOOL_CALL:SHELL}}
+COMMAND: 指令内容
+CWD: 工作目录`
+        },
+        FETCH: {
+            title: '网络请求 (下载网页或接口内容)',
+            format: `{{TOOL_CALL:FETCH}}
+URL: 请求地址`
+        },
+        READ: {
+            title: '读取文件 (LINES 可选，例如 10-40)',
+            format: `{{TOOL_CALL:READ}}
+FILE: 文件路径
+LINES: 起始行-结束行`
+        },
+        SEARCH: {
+            title: '搜索工作区 (REGEX 和 INCLUDE 可选)',
+            format: `{{TOOL_CALL:SEARCH}}
+QUERY: 搜索内容
+REGEX: true
+INCLUDE: src/**/*.ts`
+        },
+        LIST: {
+            title: '列出目录',
+            format: `{{TOOL_CALL:LIST}}
+PATH: 目录路径`
+        }
+    },
+    en: {
+        MODIFY: {
+            title: 'Modify code',
+            format: `{{TOOL_CALL:MODIFY}}
+FILE: file path
+BEFORE:
+\`\`\`
+original code block
+\`\`\`
+AFTER:
+\`\`\`
+modified code block
+\`\`\``
+        },
+        CREATE: {
+            title: 'Create a file',
+            format: `{{TOOL_CALL:CREATE}}
+FILE: file path
+CONTENT:
+\`\`\`
+file content
+\`\`\``
+        },
+        DELETE: {
+            title: 'Delete a file or folder (folders also need RECURSIVE: true)',
+            format: `{{TOOL_CALL:DELETE}}
+FILE: file path`
+        },
+        PATCH: {
+            title: 'Patch (unified diff, may span several files and hunks; best for large files or repeated snippets)',
+            format: `{{TOOL_CALL:PATCH}}
+DIFF:
+\`\`\`diff
+--- a/file path
++++ b/file path
+@@ -start,count +start,count @@
+ context line
+-removed line
++added line
+\`\`\``,
+            note: 'Use --- /dev/null to create a file and +++ /dev/null to delete one.'
+        },
+        RENAME: {
+            title: 'Rename a file or folder (IMPORTS is optional; true also updates imports that reference it)',
+            format: `{{TOOL_CALL:RENAME}}
+FILE: current path
+TO: new path
+IMPORTS: true`
+        },
+        MOVE: {
+            title: 'Move a file or folder (a TO ending in / moves it into that folder; IMPORTS as for RENAME)',
+            format: `{{TOOL_CALL:MOVE}}
+FILE: current path
+TO: target path
+IMPORTS: true`
+        },
+        MKDIR: {
+            title: 'Create a folder',
+            format: `{{TOOL_CALL:MKDIR}}
+PATH: folder path`
+        },
+        SHELL: {
+            title: 'Terminal command (CWD is optional and defaults to the workspace root)',
+            format: `{{TOOL_CALL:SHELL}}
+COMMAND: command line
+CWD: working directory`
+        },
+        FETCH: {
+            title: 'Web request (downloads a page or API response)',
+            format: `{{TOOL_CALL:FETCH}}
+URL: address`
+        },
+        READ: {
+            title: 'Read a file (LINES is optional, e.g. 10-40)',
+            format: `{{TOOL_CALL:READ}}
+FILE: file path
+LINES: start-end`
+        },
+        SEARCH: {
+            title: 'Search the workspace (REGEX and INCLUDE are optional)',
+            format: `{{TOOL_CALL:SEARCH}}
+QUERY: text to search for
+REGEX: true
+INCLUDE: src/**/*.ts`
+        },
+        LIST: {
+            title: 'List a directory',
+            format: `{{TOOL_CALL:LIST}}
+PATH: directory path`
+        }
+    }
+};
+
+const PROMPT_TEXT: Record<UiLanguage, {
+    defaultPreamble: string;
+    reply: (language: string) => string;
+    intro: Record<ToolCallSyntax, string>;
+    multiRoot: (names: string[]) => string;
+    results: (types: string) => string;
+    rules: string;
+}> = {
+    'zh-cn': {
+        defaultPreamble: '你是一个强大的 AI Agent。',
+        reply: language => `请用${language}回复。`,
+        intro: {
+            marker: '你可以执行以下工具指令，请严格遵守格式：',
+            json: '你可以执行以下工具指令。每个指令写成一个 ```json 代码块中的 JSON 对象 (多个指令可以写成数组)，字符串中的换行和引号需要转义，请严格遵守格式：',
+            xml: '你可以执行以下工具指令。每个指令写成一个 <tool_call> 标签，多行内容请放在 <![CDATA[ ]]> 中，请严格遵守格式：'
+        },
+        multiRoot: names => `当前为多根工作区，FILE 路径必须以工作区文件夹名开头 (${names.join(', ')})，例如 ${names[0]}/src/index.ts。`,
+        results: types => `${types} 的结果会在下一条消息中提供给你。`,
+        rules: '项目规范 (必须遵守)：'
+    },
+    en: {
+        defaultPreamble: 'You are a capable AI agent.',
+        reply: language => `Reply in ${language}.`,
+        intro: {
+            marker: 'You can use the following tool calls. Follow the format exactly:',
+            json: 'You can use the following tool calls. Write each call as a JSON object in a ```json code block (several calls may be given as an array); escape newlines and quotes inside strings. Follow the format exactly:',
+            xml: 'You can use the following tool calls. Write each call as a <tool_call> element and put multi-line values inside <![CDATA[ ]]>. Follow the format exactly:'
+        },
+        multiRoot: names => `This is a multi-root workspace. FILE paths must start with a workspace folder name (${names.join(', ')}), e.g. ${names[0]}/src/index.ts.`,
+        results: types => `Results of ${types} will be sent to you in the next message.`,
+        rules: 'Project rules (must be followed):'
+    }
+};
+
+export interface PromptOptions {
+    language: UiLanguage;
+    replyLanguage: string;
+    preamble: string;
+    rules: string;
+    enabledActions: ActionType[];
+    syntax: ToolCallSyntax;
+    workspaceFolders: string[];
+    context: string;
+    userInstruction: string;
+}
+
+/** 将标记格式的示例转换为 JSON 或 XML 格式，示例值沿用标记格式中的占位文字 */
+function convertFormat(type: ActionType, format: string, syntax: ToolCallSyntax): string {
+    if (syntax === 'marker') return format;
+    const fields = parseToolCalls(format, 'marker')[0]?.fields ?? new Map<string, string>();
+    const values = TOOL_FIELDS[type]
+        .filter(spec => fields.has(spec.name))
+        .map(spec => ({ spec, value: fields.get(spec.name)! }));
+
+    if (syntax === 'json') {
+        const object: Record<string, string> = { tool_call: type };
+        for (const { spec, value } of values) object[spec.name.toLowerCase()] = value;
+        return `\`\`\`json\n${JSON.stringify(object, null, 2)}\n\`\`\``;
+    }
+    const lines = values.map(({ spec, value }) => {
+        const tag = spec.name.toLowerCase();
+        return spec.block ? `<${tag}><![CDATA[\n${value}\n]]></${tag}>` : `<${tag}>${value}</${tag}>`;
+    });
+    return `<tool_call type="${type}">\n${lines.join('\n')}\n</tool_call>`;
+}
+
+/** 生成工具格式说明，只包含已启用的操作类型 */
+export function buildToolDocs(language: UiLanguage, enabledActions: ActionType[], syntax: ToolCallSyntax = 'marker'): string {
+    return ALL_ACTION_TYPES
+        .filter(type => enabledActions.includes(type))
+        .map((type, i) => {
+            const doc = TOOL_DOCS[language][type];
+            return `${i + 1}. ${doc.title}:\n${convertFormat(type, doc.format, syntax)}${doc.note ? `\n${doc.note}` : ''}`;
+        })
+        .join('\n\n');
+}
+
+export function buildPrompt(options: PromptOptions): string {
+    const text = PROMPT_TEXT[options.language];
+    const replyLanguage = options.replyLanguage || (options.language === 'zh-cn' ? '简体中文' : 'English');
+    const sections = [`${options.preamble || text.defaultPreamble}${options.language === 'zh-cn' ? '' : ' '}${text.reply(replyLanguage)}`];
+
+    if (options.enabledActions.length > 0) {
+        let tools = `${text.intro[options.syntax]}\n`;
+        if (options.workspaceFolders.length > 1) tools += `${text.multiRoot(options.workspaceFolders)}\n`;
+        tools += `\n${buildToolDocs(options.language, options.enabledActions, options.syntax)}`;
+        const resultTypes = RESULT_ACTION_TYPES.filter(type => options.enabledActions.includes(type));
+        if (resultTypes.length > 0) tools += `\n\n${text.results(resultTypes.join(', '))}`;
+        sections.push(tools);
+    }
+
+    if (options.rules.trim()) {
+        sections.push(`${text.rules}\n${options.rules.trim()}`);
+    }
+
+    return `${sections.join('\n\n')}\n\n${options.context}User Request: ${options.userInstruction}`;
+}
+
+/** 已启用的操作类型 (only-agent.enabledActions) */
+export function getEnabledActions(): ActionType[] {
+    const configured = vscode.workspace.getConfiguration('only-agent').get<string[]>('enabledActions', ALL_ACTION_TYPES);
+    return ALL_ACTION_TYPES.filter(type => configured.includes(type));
+}
+
+/** 提示词中说明的工具调用格式 (only-agent.toolCallSyntax)。解析时总会识别标记和 XML 格式，JSON 代码块只在该格式为 json 时识别 */
+export function getToolCallSyntax(): ToolCallSyntax {
+    return vscode.workspace.getConfiguration('only-agent').get<ToolCallSyntax>('toolCallSyntax', 'marker');
+}
+
+/** 读取项目规范：only-agent.projectRules 设置以及各工作区文件夹下的 .only-agent/rules.md */
+export async function loadProjectRules(): Promise<string> {
+    const parts: string[] = [];
+    const configured = vscode.workspace.getConfiguration('only-agent').get<string>('projectRules', '');
+    if (configured.trim()) parts.push(configured.trim());
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, '.only-agent', 'rules.md'));
+            const text = Buffer.from(content).toString().trim();
+            if (text) parts.push(text);
+        } catch {
+            // 没有规范文件
+        }
+    }
+    return parts.join('\n\n');
+}
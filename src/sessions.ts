@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { ContextItem, defaultContextItems } from './contextBuilder';
+import { t } from './i18n';
+import { ShellResult } from './shellRunner';
+import { ChatMessage, ContextEntry } from './types';
+
+export interface ChatSession {
+    id: string;
+    name: string;
+    createdAt: number;
+    history: ChatMessage[];
+    /** 已批准的 READ/SEARCH/LIST 等操作的结果，会附加到下一次复制的 Prompt 中 */
+    contextBuffer: ContextEntry[];
+    /** 最近执行的 SHELL 命令结果，可附加到下一次复制的 Prompt 中 */
+    shellResults: ShellResult[];
+    /** 上下文面板中固定的条目，复制 Prompt 时按 token 预算加入 */
+    contextItems: ContextItem[];
+    /** 被用户拒绝的操作说明，会附加到下一次复制的 Prompt 中 */
+    rejections: string[];
+}
+
+interface SessionState {
+    activeId: string;
+    sessions: ChatSession[];
+}
+
+/**
+ * 命名会话的持久化存储 (保存在 workspaceState 中，按工作区区分)。
+ * 待批准的操作保存在会话历史里，以 status 为 'pending' 的操作卡片表示。
+ */
+export class SessionStore {
+    private static readonly stateKey = 'only-agent.sessions';
+    private _state: SessionState;
+
+    constructor(private readonly _memento: vscode.Memento, private readonly _createWelcome: () => ChatMessage) {
+        const saved = this._memento.get<SessionState>(SessionStore.stateKey);
+        if (saved && saved.sessions.length > 0) {
+            this._state = saved;
+            if (!this._state.sessions.some(s => s.id === this._state.activeId)) {
+                this._state.activeId = this._state.sessions[0].id;
+            }
+        } else {
+            const session = this.createSession(t('session.default'));
+            this._state = { activeId: session.id, sessions: [session] };
+        }
+    }
+
+    public get sessions(): readonly ChatSession[] {
+        return this._state.sessions;
+    }
+
+    public get active(): ChatSession {
+        return this._state.sessions.find(s => s.id === this._state.activeId)!;
+    }
+
+    public create(name: string): ChatSession {
+        const session = this.createSession(name);
+        this._state.sessions.push(session);
+        this._state.activeId = session.id;
+        this.save();
+        return session;
+    }
+
+    public switchTo(id: string): ChatSession | undefined {
+        if (!this._state.sessions.some(s => s.id === id)) return undefined;
+        this._state.activeId = id;
+        this.save();
+        return this.active;
+    }
+
+    public rename(id: string, name: string) {
+        const session = this._state.sessions.find(s => s.id === id);
+        if (session) {
+            session.name = name;
+            this.save();
+        }
+    }
+
+    /** 删除会话；删除最后一个会话时会自动新建一个空会话 */
+    public delete(id: string) {
+        this._state.sessions = this._state.sessions.filter(s => s.id !== id);
+        if (this._state.sessions.length === 0) {
+            this._state.sessions.push(this.createSession(t('session.default')));
+        }
+        if (!this._state.sessions.some(s => s.id === this._state.activeId)) {
+            this._state.activeId = this._state.sessions[this._state.sessions.length - 1].id;
+        }
+        this.save();
+    }
+
+    public save() {
+        this._memento.update(SessionStore.stateKey, this._state);
+    }
+
+    private createSession(name: string): ChatSession {
+        return {
+            id: Math.random().toString(36).substring(7),
+            name,
+            createdAt: Date.now(),
+            history: [this._createWelcome()],
+            contextBuffer: [],
+            shellResults: [],
+            contextItems: defaultContextItems(),
+            rejections: []
+        };
+    }
+}
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { MessageKey, t } from './i18n';
+
+export type ShellRisk = 'low' | 'medium' | 'high';
+
+/** deny: 禁止执行；allow: 可以由 Approve All 自动执行；ask: 需要单独批准 */
+export type ShellVerdict = 'deny' | 'allow' | 'ask';
+
+/** 对一条 SHELL 命令的策略判断结果 */
+export interface ShellDecision {
+    verdict: ShellVerdict;
+    risk: ShellRisk;
+    /** 风险原因 (已本地化) */
+    reasons: string[];
+    /** 命中的 allow/deny 规则 */
+    rule?: string;
+}
+
+interface RiskRule {
+    risk: ShellRisk;
+    pattern: RegExp;
+    reason: MessageKey;
+}
+
+/** 按命令片段 (以 &&、||、;、| 分隔) 检查的风险规则 */
+const SEGMENT_RULES: RiskRule[] = [
+    { risk: 'high', pattern: /^(?:\S*\/)?sudo\b|^doas\b|^su\b/, reason: 'policy.reason.sudo' },
+    { risk: 'high', pattern: /^rm\s+(?:.*\s)?-(?:[a-z]*r[a-z]*f|[a-z]*f[a-z]*r|[a-z]*r)\b|^rm\s+.*--recursive\b/i, reason: 'policy.reason.recursiveDelete' },
+    { risk: 'high', pattern: /^(?:rmdir\s+\/s|del\s+\/s|rd\s+\/s|remove-item\b.*-recurse)/i, reason: 'policy.reason.recursiveDelete' },
+    { risk: 'high', pattern: /^(?:mkfs\S*|dd\s+.*\bof=|format\s+[a-z]:|diskpart|shred)\b/i, reason: 'policy.reason.disk' },
+    { risk: 'high', pattern: /^git\s+(?:push\s+.*(?:--force|-f\b)|reset\s+--hard|clean\s+-[a-z]*f)/, reason: 'policy.reason.gitDestructive' },
+    { risk: 'high', pattern: /^(?:shutdown|reboot|halt|poweroff)\b/, reason: 'policy.reason.system' },
+    { risk: 'high', pattern: /^chmod\s+(?:-R\s+)?[0-7]*777\b/, reason: 'policy.reason.permissions' },
+    { risk: 'medium', pattern: /^(?:curl|wget|invoke-webrequest|iwr|invoke-restmethod|irm)\b/i, reason: 'policy.reason.download' },
+    { risk: 'medium', pattern: /^(?:npm|pnpm|yarn|pip3?|gem|cargo|go)\s+(?:install|i|add|get)\b/, reason: 'policy.reason.install' },
+    { risk: 'medium', pattern: /^git\s+push\b/, reason: 'policy.reason.gitPush' },
+    { risk: 'medium', pattern: /^(?:rm|del|rmdir|remove-item|mv|move)\b/i, reason: 'policy.reason.fileChange' },
+    { risk: 'medium', pattern: /^(?:chmod|chown|kill|killall|pkill|taskkill)\b/, reason: 'policy.reason.permissions' }
+];
+
+/** 对整条命令检查的风险规则 */
+const COMMAND_RULES: RiskRule[] = [
+    { risk: 'high', pattern: /\|\s*(?:sudo\s+)?(?:ba|z|da)?sh\b|\|\s*(?:iex|invoke-expression)\b/i, reason: 'policy.reason.pipeToShell' },
+    { risk: 'high', pattern: /:\(\)\s*\{.*\};\s*:/, reason: 'policy.reason.forkBomb' },
+    { risk: 'high', pattern: />\s*\/dev\/(?:sd|nvme|disk)/, reason: 'policy.reason.disk' },
+    { risk: 'medium', pattern: /(?:^|[^>&\d])>\s*(?!\/dev\/null)[^\s&>]/, reason: 'policy.reason.redirect' },
+    { risk: 'medium', pattern: /\b(?:eval|exec)\b|\$\(|`/, reason: 'policy.reason.dynamic' }
+];
+
+const RISK_ORDER: ShellRisk[] = ['low', 'medium', 'high'];
+
+function normalizeCommand(command: string): string {
+    return command.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * 按 &&、||、;、|、& 和换行拆分为命令片段。换行在规范化空白之前拆分，
+ * 否则多行命令会被当作一条命令匹配规则。
+ */
+function splitSegments(command: string): string[] {
+    return command.split(/&&|\|\||;|\||(?<![>&])&(?![&>])|\r?\n/)
+        .map(s => normalizeCommand(s).replace(/^(?:\(|\{|\s)+/, ''))
+        .filter(Boolean);
+}
+
+/**
+ * 规则写成 /.../flags 时作为正则表达式，否则作为通配符模式。
+ * 通配符中的 * 不匹配重定向符号 < 和 >，命令片段已经不包含分隔符。
+ */
+function toPatternRegExp(pattern: string): RegExp | undefined {
+    const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    try {
+        if (regex) return new RegExp(regex[1], regex[2]);
+        const escaped = normalizeCommand(pattern).replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^<>]*');
+        return new RegExp(`^${escaped}$`);
+    } catch {
+        return undefined;
+    }
+}
+
+function findRule(command: string, patterns: readonly string[]): string | undefined {
+    return patterns.find(p => toPatternRegExp(p)?.test(command));
+}
+
+/** 每个片段都命中某条规则时返回命中的规则，否则返回 undefined */
+function findRuleForAll(segments: string[], patterns: readonly string[]): string | undefined {
+    const rules: string[] = [];
+    for (const segment of segments) {
+        const rule = findRule(segment, patterns);
+        if (!rule) return undefined;
+        if (!rules.includes(rule)) rules.push(rule);
+    }
+    return rules.length > 0 ? rules.join(', ') : undefined;
+}
+
+/** 按风险规则给命令分级，返回最高的风险等级以及全部原因 */
+export function classifyCommand(command: string): { risk: ShellRisk, reasons: string[] } {
+    const normalized = normalizeCommand(command);
+    const segments = splitSegments(command);
+    let risk: ShellRisk = 'low';
+    const reasons: string[] = [];
+    const apply = (rule: RiskRule) => {
+        if (RISK_ORDER.indexOf(rule.risk) > RISK_ORDER.indexOf(risk)) risk = rule.risk;
+        const reason = t(rule.reason);
+        if (!reasons.includes(reason)) reasons.push(reason);
+    };
+
+    for (const rule of COMMAND_RULES) {
+        if (rule.pattern.test(normalized)) apply(rule);
+    }
+    for (const segment of segments) {
+        for (const rule of SEGMENT_RULES) {
+            if (rule.pattern.test(segment)) apply(rule);
+        }
+    }
+    return { risk, reasons };
+}
+
+/**
+ * 根据 only-agent.shell.deny / only-agent.shell.allow 以及风险分级判断命令能否执行。
+ * 整条命令或任一片段命中 deny 的命令被禁止；每个片段都命中 allow 且为低风险的命令
+ * 可以由 Approve All 执行；其余需要单独批准。
+ */
+export function evaluateShellCommand(command: string): ShellDecision {
+    const config = vscode.workspace.getConfiguration('only-agent.shell');
+    const segments = splitSegments(command);
+    const { risk, reasons } = classifyCommand(command);
+
+    const denyRules = config.get<string[]>('deny', []);
+    const denied = findRule(normalizeCommand(command), denyRules) ?? segments.map(s => findRule(s, denyRules)).find(Boolean);
+    if (denied) return { verdict: 'deny', risk, reasons, rule: denied };
+
+    const allowed = findRuleForAll(segments, config.get<string[]>('allow', []));
+    if (allowed && risk === 'low') return { verdict: 'allow', risk, reasons, rule: allowed };
+    return { verdict: 'ask', risk, reasons, rule: allowed };
+}
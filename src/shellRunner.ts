@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
+import { t } from './i18n';
+
+export interface ShellResult {
+    command: string;
+    cwd: string;
+    stdout: string;
+    stderr: string;
+    /** 进程被信号终止或超时时为 null */
+    exitCode: number | null;
+    durationMs: number;
+    timedOut?: boolean;
+}
+
+/** 单个输出流保留的最大字符数，超出时保留末尾部分 (错误信息通常在最后) */
+const MAX_CAPTURE = 200_000;
+
+function appendCapped(buffer: string, chunk: string): string {
+    const next = buffer + chunk;
+    return next.length > MAX_CAPTURE ? next.substring(next.length - MAX_CAPTURE) : next;
+}
+
+/** 结束命令及其启动的所有进程：POSIX 上结束整个进程组，Windows 上只能结束 shell 本身 */
+function killProcessTree(child: ChildProcess) {
+    if (process.platform !== 'win32' && child.pid !== undefined) {
+        try {
+            process.kill(-child.pid, 'SIGKILL');
+            return;
+        } catch {
+            // 进程组已经结束
+        }
+    }
+    child.kill();
+}
+
+/**
+ * 通过子进程执行 SHELL 指令并捕获 stdout/stderr/退出码，
+ * 同时把输出实时写入一个伪终端 (Pseudoterminal)，方便在终端面板中查看。
+ */
+export class ShellRunner implements vscode.Disposable {
+    private _terminal?: vscode.Terminal;
+    private _opened?: Promise<void>;
+    private readonly _writeEmitter = new vscode.EventEmitter<string>();
+
+    public async run(command: string, cwd: string, timeoutMs: number): Promise<ShellResult> {
+        await this.showTerminal();
+        this.write(`\x1b[1m$ ${command}\x1b[0m\n`);
+
+        const start = Date.now();
+        return new Promise<ShellResult>((resolve, reject) => {
+            let stdout = '';
+            let stderr = '';
+            let timedOut = false;
+            let finished = false;
+
+            // POSIX 上让 shell 成为新进程组的组长，超时时可以一并结束它启动的子进程。
+            // 不提供 stdin，等待输入的命令 (例如打开编辑器的 git commit) 会立即读到 EOF 而不是一直挂起
+            const child = spawn(command, {
+                cwd,
+                shell: true,
+                env: process.env,
+                detached: process.platform !== 'win32',
+                stdio: ['ignore', 'pipe', 'pipe']
+            });
+            const timer = timeoutMs > 0 ? setTimeout(() => {
+                timedOut = true;
+                killProcessTree(child);
+            }, timeoutMs) : undefined;
+
+            const finish = (code: number | null) => {
+                if (finished) return;
+                finished = true;
+                if (timer) clearTimeout(timer);
+                const durationMs = Date.now() - start;
+                this.write(`\x1b[2m[exit ${timedOut ? 'timeout' : code}, ${(durationMs / 1000).toFixed(1)}s]\x1b[0m\n\n`);
+                resolve({ command, cwd, stdout, stderr, exitCode: code, durationMs, timedOut });
+            };
+
+            // 由流负责解码，多字节字符 (例如中文) 跨数据块时不会被截断
+            child.stdout.setEncoding('utf8');
+            child.stderr.setEncoding('utf8');
+            child.stdout.on('data', (text: string) => {
+                stdout = appendCapped(stdout, text);
+                this.write(text);
+            });
+            child.stderr.on('data', (text: string) => {
+                stderr = appendCapped(stderr, text);
+                this.write(`\x1b[31m${text}\x1b[0m`);
+            });
+            child.on('error', err => {
+                if (timer) clearTimeout(timer);
+                reject(new Error(t('shell.startFailed', err.message)));
+            });
+            child.on('exit', code => {
+                // 超时后仍有未结束的进程占用输出管道时 'close' 不会触发，不再等待
+                if (!timedOut) return;
+                child.stdout.destroy();
+                child.stderr.destroy();
+                finish(code);
+            });
+            child.on('close', code => finish(code));
+        });
+    }
+
+    public dispose() {
+        this._terminal?.dispose();
+        this._writeEmitter.dispose();
+    }
+
+    private write(text: string) {
+        this._writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+    }
+
+    /** 显示伪终端，并等待其打开 (打开之前写入的内容会丢失) */
+    private showTerminal(): Promise<void> {
+        if (!this._terminal) {
+            this._opened = new Promise(resolve => {
+                const pty: vscode.Pseudoterminal = {
+                    onDidWrite: this._writeEmitter.event,
+                    open: () => resolve(),
+                    close: () => { this._terminal = undefined; }
+                };
+                this._terminal = vscode.window.createTerminal({ name: 'Only Agent', pty });
+            });
+        }
+        this._terminal!.show(true);
+        return this._opened!;
+    }
+}
+
+function tail(text: string, maxLines: number): string {
+    const lines = text.replace(/\s+$/, '').split(/\r?\n/);
+    if (lines.length <= maxLines) return lines.join('\n');
+    return t('shell.omitted', lines.length - maxLines) + '\n' + lines.slice(-maxLines).join('\n');
+}
+
+/** 将命令结果格式化为文本，用于操作卡片和 Prompt */
+export function formatShellResult(result: ShellResult, maxLines = 200): string {
+    const status = result.timedOut ? t('shell.statusTimeout') : t('shell.statusExit', String(result.exitCode));
+    let text = `$ ${result.command}\n(${status}, ${t('shell.duration', (result.durationMs / 1000).toFixed(1))})\n`;
+    if (result.stdout.trim()) text += `\nstdout:\n${tail(result.stdout, maxLines)}\n`;
+    if (result.stderr.trim()) text += `\nstderr:\n${tail(result.stderr, maxLines)}\n`;
+    return text;
+}
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { t } from './i18n';
+
+/**
+ * 操作执行前的文件快照，content 为空表示文件原本不存在。
+ * movedTo 表示该文件或文件夹被重命名到了别处，恢复时移回原位置。
+ */
+export interface FileSnapshot {
+    uri: vscode.Uri;
+    content?: Uint8Array;
+    movedTo?: vscode.Uri;
+}
+
+/** 批量快照的文件数量上限，超过时不对文件夹拍摄快照 */
+export const MAX_FOLDER_SNAPSHOT_FILES = 500;
+
+function findOpenDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** 记录文件当前内容 (已打开的文档以编辑器中的内容为准，包含未保存的修改) */
+export async function takeSnapshot(uri: vscode.Uri): Promise<FileSnapshot> {
+    const doc = findOpenDocument(uri);
+    if (doc) {
+        return { uri, content: Buffer.from(doc.getText()) };
+    }
+    try {
+        return { uri, content: await vscode.workspace.fs.readFile(uri) };
+    } catch {
+        return { uri };
+    }
+}
+
+/** 记录文件夹中所有文件的内容，文件过多时返回 undefined */
+export async function takeFolderSnapshot(uri: vscode.Uri): Promise<FileSnapshot[] | undefined> {
+    const snapshots: FileSnapshot[] = [];
+    const walk = async (dir: vscode.Uri): Promise<boolean> => {
+        for (const [name, type] of await vscode.workspace.fs.readDirectory(dir)) {
+            const child = vscode.Uri.joinPath(dir, name);
+            if (type & vscode.FileType.Directory) {
+                if (!await walk(child)) return false;
+            } else {
+                if (snapshots.length >= MAX_FOLDER_SNAPSHOT_FILES) return false;
+                snapshots.push({ uri: child, content: await vscode.workspace.fs.readFile(child) });
+            }
+        }
+        return true;
+    };
+    return await walk(uri) ? snapshots : undefined;
+}
+
+/**
+ * 将文件恢复到快照状态：原本不存在的文件会被删除，被删除的文件会被重新创建，被移动的文件会被移回。
+ * 原本不存在的文件夹只有在为空时才会被删除。
+ */
+export async function restoreSnapshot(snapshot: FileSnapshot): Promise<void> {
+    const { uri, content, movedTo } = snapshot;
+    if (movedTo) {
+        await vscode.workspace.fs.rename(movedTo, uri, { overwrite: false });
+        return;
+    }
+    if (!content) {
+        if (!await exists(uri)) return;
+        const stat = await vscode.workspace.fs.stat(uri);
+        if (stat.type & vscode.FileType.Directory) {
+            if ((await vscode.workspace.fs.readDirectory(uri)).length > 0) {
+                throw new Error(t('revert.folderNotEmpty', uri.fsPath));
+            }
+            await vscode.workspace.fs.delete(uri, { recursive: true });
+        } else {
+            await vscode.workspace.fs.delete(uri);
+        }
+        return;
+    }
+
+    const doc = findOpenDocument(uri);
+    if (doc && !doc.isClosed && await exists(uri)) {
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(uri, new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length)), Buffer.from(content).toString());
+        if (!await vscode.workspace.applyEdit(edit)) {
+            throw new Error(t('revert.restoreFailed', uri.fsPath));
+        }
+        return;
+    }
+    await vscode.workspace.fs.writeFile(uri, content);
+}
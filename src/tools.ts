@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import { t } from './i18n';
+import { resolveWorkspacePath, toPromptPath } from './workspacePaths';
+
+const MAX_SEARCH_FILES = 2000;
+const MAX_SEARCH_RESULTS = 200;
+
+function isBinary(content: Uint8Array): boolean {
+    return content.subarray(0, 8000).includes(0);
+}
+
+function promptPathOf(uri: vscode.Uri): string {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    return folder ? toPromptPath(folder, uri.fsPath) : uri.fsPath;
+}
+
+/** READ: 读取文件 (可选行号范围，从 1 开始，包含两端)，输出带行号的内容 */
+export async function readFileTool(filePath: string, range?: { start: number; end: number }): Promise<string> {
+    const { uri } = resolveWorkspacePath(filePath);
+    const content = await vscode.workspace.fs.readFile(uri);
+    if (isBinary(content)) throw new Error(t('tools.binaryFile', filePath));
+
+    const lines = Buffer.from(content).toString().split(/\r?\n/);
+    const start = Math.max(1, range?.start ?? 1);
+    const end = Math.min(lines.length, range?.end ?? lines.length);
+    const width = String(end).length;
+    return lines
+        .slice(start - 1, end)
+        .map((line, i) => `${String(start + i).padStart(width)} | ${line}`)
+        .join('\n');
+}
+
+/** 展开 glob 中的 {a,b}：多个模式合并到一个 {…} 中时不能再嵌套 */
+function expandBraces(pattern: string): string[] {
+    const match = pattern.match(/^(.*?)\{([^{}]*)\}(.*)$/);
+    if (!match) return [pattern];
+    return match[2].split(',').flatMap(part => expandBraces(match[1] + part + match[3]));
+}
+
+/**
+ * 搜索时排除的文件：node_modules 以及 files.exclude 和 search.exclude 中启用的模式 (忽略带 when 条件的项)。
+ * 向 findFiles 传入 exclude 参数会取代默认的排除设置，所以这里把它们合并为一个 glob。
+ */
+function searchExcludeGlob(): string {
+    const patterns = new Set(['**/node_modules/**']);
+    for (const section of ['files', 'search']) {
+        const exclude = vscode.workspace.getConfiguration(section).get<Record<string, unknown>>('exclude', {});
+        for (const [pattern, enabled] of Object.entries(exclude)) {
+            if (enabled === true) expandBraces(pattern).forEach(p => patterns.add(p));
+        }
+    }
+    return `{${Array.from(patterns).join(',')}}`;
+}
+
+/** SEARCH: 在工作区中搜索文本或正则表达式，输出 "路径:行号: 内容" */
+export async function searchTool(query: string, isRegex: boolean, include?: string): Promise<string> {
+    let pattern: RegExp;
+    try {
+        pattern = new RegExp(isRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    } catch (e: any) {
+        throw new Error(t('tools.invalidRegex', e.message));
+    }
+
+    const files = await vscode.workspace.findFiles(include || '**/*', searchExcludeGlob(), MAX_SEARCH_FILES);
+    const results: string[] = [];
+    for (const file of files) {
+        const content = await vscode.workspace.fs.readFile(file);
+        if (isBinary(content)) continue;
+        const lines = Buffer.from(content).toString().split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+            if (pattern.test(lines[i])) {
+                results.push(`${promptPathOf(file)}:${i + 1}: ${lines[i].trim()}`);
+                if (results.length >= MAX_SEARCH_RESULTS) {
+                    results.push(t('tools.tooManyResults', MAX_SEARCH_RESULTS));
+                    return results.join('\n');
+                }
+            }
+        }
+    }
+    return results.length > 0 ? results.join('\n') : t('tools.noResults');
+}
+
+/** LIST: 列出目录内容，目录名以 "/" 结尾；多根工作区未指定路径时列出各个根文件夹 */
+export async function listTool(dirPath?: string): Promise<string> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (!dirPath && folders.length > 1) {
+        return folders.map(f => `${f.name}/`).join('\n');
+    }
+
+    const { uri } = resolveWorkspacePath(dirPath || '.');
+    const entries = await vscode.workspace.fs.readDirectory(uri);
+    entries.sort(([a, aType], [b, bType]) => {
+        const aDir = aType & vscode.FileType.Directory;
+        const bDir = bType & vscode.FileType.Directory;
+        if (aDir !== bDir) return aDir ? -1 : 1;
+        return a.localeCompare(b);
+    });
+    if (entries.length === 0) return t('tools.emptyDir');
+    return entries.map(([name, type]) => type & vscode.FileType.Directory ? `${name}/` : name).join('\n');
+}
@@ -0,0 +1,133 @@
+import { t } from './i18n';
+import { validateAction } from './parser';
+import { ChatSession } from './sessions';
+import { AgentAction, ChatMessage } from './types';
+
+/** 导出的 JSON 对话记录，可以重新导入为新会话 */
+export interface Transcript {
+    format: 'only-agent-transcript';
+    version: 1;
+    name: string;
+    createdAt: number;
+    exportedAt: number;
+    history: ChatMessage[];
+}
+
+const ROLES: ChatMessage['role'][] = ['user', 'ai', 'system', 'error', 'action'];
+
+/** 选择比内容中最长的连续反引号更长的代码块围栏 */
+function fence(text: string, lang = ''): string {
+    const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(m => m.length));
+    const marker = '`'.repeat(Math.max(3, longest + 1));
+    return `${marker}${lang}\n${text.replace(/\n$/, '')}\n${marker}`;
+}
+
+/** 系统消息中的 <br> 等标签在 Markdown 中转换为换行或去掉 */
+function stripHtml(text: string): string {
+    return text.replace(/<br\s*\/?>/gi, '\n').replace(/<\/?[a-z][^>]*>/gi, '');
+}
+
+/** 操作的目标：路径、命令、URL 或查询内容 */
+export function actionTarget(action: AgentAction): string {
+    return action.newPath ? `${action.path} → ${action.newPath}`
+        : action.path ?? action.command ?? action.url ?? action.query ?? (action.files ?? []).join(', ');
+}
+
+function actionToMarkdown(action: AgentAction): string {
+    const lines = [`**${action.type}** \`${actionTarget(action)}\` (${action.status ?? 'pending'}${action.edited ? ', edited' : ''})`];
+    if (action.policy) lines.push(`- ${t('transcript.risk', t(`policy.risk.${action.policy.risk}`))}`);
+    if (action.warning) lines.push(`- ⚠️ ${action.warning}`);
+    for (const error of action.errors ?? []) lines.push(`- ❌ ${error}`);
+    if (action.before !== undefined) lines.push('', 'BEFORE:', fence(action.before));
+    if (action.content !== undefined) lines.push('', action.type === 'MODIFY' ? 'AFTER:' : 'CONTENT:', fence(action.content, action.type === 'PATCH' ? 'diff' : ''));
+    if (action.snippet) lines.push('', fence(action.snippet));
+    if (action.output) lines.push('', `${t('transcript.output')}:`, fence(action.output));
+    return lines.join('\n');
+}
+
+export function toJsonTranscript(session: ChatSession): string {
+    const transcript: Transcript = {
+        format: 'only-agent-transcript',
+        version: 1,
+        name: session.name,
+        createdAt: session.createdAt,
+        exportedAt: Date.now(),
+        history: session.history
+    };
+    return JSON.stringify(transcript, null, 2);
+}
+
+export function toMarkdownTranscript(session: ChatSession): string {
+    const headings: Record<ChatMessage['role'], string> = {
+        user: t('transcript.user'),
+        ai: t('transcript.ai'),
+        system: t('transcript.system'),
+        error: t('transcript.error'),
+        action: t('transcript.action')
+    };
+    const parts = [
+        `# ${session.name}`,
+        t('transcript.exportedAt', new Date(session.createdAt).toLocaleString(), new Date().toLocaleString())
+    ];
+    for (const message of session.history) {
+        let body = message.action ? actionToMarkdown(message.action)
+            : message.role === 'ai' || message.role === 'user' ? message.text
+            : stripHtml(message.text);
+        if (message.snippet) body += `\n\n${fence(message.snippet)}`;
+        if (message.verification?.problems.length) {
+            body += '\n\n' + message.verification.problems.map(p => `- \`${p.path}:${p.line}\` [${p.severity}] ${p.message}`).join('\n');
+        }
+        parts.push(`## ${headings[message.role]}\n\n${body}`);
+    }
+    return parts.join('\n\n') + '\n';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** 检查消息的基本结构：已知的角色、文本，操作消息带有操作类型 */
+function isChatMessage(value: unknown): value is ChatMessage {
+    if (!isRecord(value) || typeof value.text !== 'string' || !ROLES.some(role => role === value.role)) return false;
+    return value.role !== 'action' || (isRecord(value.action) && typeof value.action.type === 'string');
+}
+
+/**
+ * 解析导出的 JSON 对话记录，格式不正确时抛出错误。
+ * 待批准的操作按解析时的规则重新校验，不合法的标记为 invalid，不能再批准。
+ */
+export function parseTranscript(text: string): Transcript {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e: any) {
+        throw new Error(t('transcript.invalid', e.message));
+    }
+    if (!isRecord(data) || data.format !== 'only-agent-transcript' || !Array.isArray(data.history)) {
+        throw new Error(t('transcript.invalid', t('transcript.notTranscript')));
+    }
+    if (data.version !== 1) {
+        throw new Error(t('transcript.invalid', t('transcript.unsupportedVersion', String(data.version))));
+    }
+    const messages: unknown[] = data.history;
+    const history: ChatMessage[] = [];
+    for (const [index, message] of messages.entries()) {
+        if (!isChatMessage(message)) {
+            throw new Error(t('transcript.invalid', t('transcript.badMessage', index + 1)));
+        }
+        const action = message.action;
+        if (action && (action.status ?? 'pending') === 'pending') {
+            const errors = validateAction(action);
+            if (errors.length > 0) message.action = { ...action, status: 'invalid', errors };
+        }
+        history.push(message);
+    }
+    return {
+        format: 'only-agent-transcript',
+        version: 1,
+        name: typeof data.name === 'string' ? data.name : '',
+        createdAt: typeof data.createdAt === 'number' ? data.createdAt : Date.now(),
+        exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : Date.now(),
+        history
+    };
+}
@@ -0,0 +1,71 @@
+import { MatchStrategy } from './matcher';
+import { ShellDecision } from './shellPolicy';
+import { VerificationReport } from './verification';
+
+export interface AgentAction {
+    id: string;
+    type: 'MODIFY' | 'CREATE' | 'DELETE' | 'PATCH' | 'RENAME' | 'MOVE' | 'MKDIR' | 'SHELL' | 'FETCH' | 'READ' | 'SEARCH' | 'LIST';
+    path?: string;
+    /** RENAME/MOVE 的目标路径 */
+    newPath?: string;
+    /** RENAME/MOVE 时是否让语言扩展更新引用该文件的 import */
+    updateImports?: boolean;
+    /** DELETE 文件夹时必须为 true */
+    recursive?: boolean;
+    content?: string;
+    before?: string;
+    command?: string;
+    url?: string;
+    /** PATCH 涉及的文件 */
+    files?: string[];
+    /** READ 的行号范围 (从 1 开始，包含两端) */
+    range?: { start: number; end: number };
+    /** SEARCH 的查询内容及选项 */
+    query?: string;
+    isRegex?: boolean;
+    include?: string;
+    /** SHELL 的工作目录 (相对于工作区) */
+    cwd?: string;
+    /** 执行结果，显示在操作卡片中 */
+    output?: string;
+    /** MODIFY 的 BEFORE 块匹配方式、相似度和候选位置数量 */
+    match?: { strategy: MatchStrategy; score: number; candidates: number };
+    /** BEFORE 块有多个候选位置时用户选择的位置 */
+    matchIndex?: number;
+    /** SHELL 命令的风险等级和命中的策略规则 */
+    policy?: ShellDecision;
+    /** 批准前检查出的问题，例如 BEFORE 块无法匹配 */
+    warning?: string;
+    /** 最近一次执行失败的错误信息 */
+    error?: string;
+    /** 所属的 AI 回复批次 */
+    batchId?: string;
+    /** invalid 表示解析或校验失败，不能批准；rejected 表示被用户拒绝 */
+    status?: 'pending' | 'done' | 'reverted' | 'invalid' | 'rejected';
+    /** 批准前被用户在操作卡片中修改过 */
+    edited?: boolean;
+    /** 解析或校验时发现的问题 */
+    errors?: string[];
+    /** 出错的工具调用原文片段 */
+    snippet?: string;
+}
+
+export interface ChatMessage {
+    role: 'user' | 'ai' | 'system' | 'error' | 'action';
+    text: string;
+    action?: AgentAction;
+    batchId?: string;
+    /** 无法识别的工具调用原文片段 */
+    snippet?: string;
+    /** 应用修改后的诊断检查结果 */
+    verification?: VerificationReport;
+    /** 对话线程从这条消息开始，之前的消息不再加入 Prompt 的对话记录 */
+    threadStart?: boolean;
+}
+
+/** 等待附加到下一次 Prompt 中的工具结果 */
+export interface ContextEntry {
+    actionId: string;
+    title: string;
+    text: string;
+}
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { t } from './i18n';
+import { toPromptPath } from './workspacePaths';
+
+/** 修改后新出现的一条诊断，行号从 1 开始 */
+export interface VerificationProblem {
+    uri: string;
+    path: string;
+    line: number;
+    severity: 'error' | 'warning';
+    message: string;
+    source?: string;
+}
+
+/** 一批修改的检查结果，保存在对话历史中，用于生成修复 Prompt */
+export interface VerificationReport {
+    id: string;
+    batchId: string;
+    files: number;
+    problems: VerificationProblem[];
+    /** 等待诊断稳定超时，结果可能不完整 */
+    timedOut?: boolean;
+}
+
+/** 修改前各文件已有的诊断 (uri → 诊断的比较键) */
+export type DiagnosticsBaseline = Map<string, string[]>;
+
+/** 诊断连续这么久没有变化时认为语言服务已经完成分析 */
+const QUIET_MS = 1500;
+
+/** 修复 Prompt 中每个问题前后附带的代码行数 */
+const REGION_CONTEXT_LINES = 3;
+
+function isRelevant(diagnostic: vscode.Diagnostic): boolean {
+    return diagnostic.severity === vscode.DiagnosticSeverity.Error || diagnostic.severity === vscode.DiagnosticSeverity.Warning;
+}
+
+/** 修改会移动行号，所以按内容而不是位置比较诊断 */
+function diagnosticKey(diagnostic: vscode.Diagnostic): string {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    return [diagnostic.severity, diagnostic.source ?? '', code ?? '', diagnostic.message].join('\u0000');
+}
+
+function displayPath(uri: vscode.Uri): string {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    return folder ? toPromptPath(folder, uri.fsPath) : uri.fsPath;
+}
+
+/**
+ * 在后台打开文档，让语言服务开始分析。很多语言服务只检查已打开的文档，
+ * 在显示操作卡片时打开，批准时记录的基准才会包含文件原有的问题。
+ */
+export async function openForDiagnostics(uris: vscode.Uri[]): Promise<vscode.Uri[]> {
+    const opened: vscode.Uri[] = [];
+    for (const uri of uris) {
+        try {
+            await vscode.workspace.openTextDocument(uri);
+            opened.push(uri);
+        } catch {
+            // 文件不存在 (例如已被删除) 或不是文本文件
+        }
+    }
+    return opened;
+}
+
+/** 记录文件在修改前的诊断，同一批次中已记录过的文件保持最早的状态 */
+export function captureBaseline(baseline: DiagnosticsBaseline, uris: vscode.Uri[]) {
+    for (const uri of uris) {
+        if (baseline.has(uri.toString())) continue;
+        baseline.set(uri.toString(), vscode.languages.getDiagnostics(uri).filter(isRelevant).map(diagnosticKey));
+    }
+}
+
+/** 等待这些文件的诊断连续 QUIET_MS 没有变化，超过 timeoutMs 时返回 false */
+function waitForDiagnostics(uris: vscode.Uri[], timeoutMs: number): Promise<boolean> {
+    const watched = new Set(uris.map(uri => uri.toString()));
+    return new Promise(resolve => {
+        let quietTimer: NodeJS.Timeout;
+        const finish = (settled: boolean) => {
+            clearTimeout(quietTimer);
+            clearTimeout(timeoutTimer);
+            listener.dispose();
+            resolve(settled);
+        };
+        const restart = () => {
+            clearTimeout(quietTimer);
+            quietTimer = setTimeout(() => finish(true), QUIET_MS);
+        };
+        const timeoutTimer = setTimeout(() => finish(false), timeoutMs);
+        const listener = vscode.languages.onDidChangeDiagnostics(e => {
+            if (e.uris.some(uri => watched.has(uri.toString()))) restart();
+        });
+        restart();
+    });
+}
+
+/**
+ * 等待语言服务分析完修改后的文件，与修改前的基准比较，返回新出现的错误和警告。
+ * 基准中已有的同一诊断 (按内容计数) 不算新问题。已删除的文件不参与检查。
+ */
+export async function verifyChanges(batchId: string, baseline: DiagnosticsBaseline, timeoutMs: number): Promise<VerificationReport> {
+    const uris = await openForDiagnostics(Array.from(baseline.keys(), key => vscode.Uri.parse(key)));
+    const settled = await waitForDiagnostics(uris, timeoutMs);
+
+    const problems: VerificationProblem[] = [];
+    for (const uri of uris) {
+        const remaining = [...baseline.get(uri.toString()) ?? []];
+        for (const diagnostic of vscode.languages.getDiagnostics(uri).filter(isRelevant)) {
+            const index = remaining.indexOf(diagnosticKey(diagnostic));
+            if (index !== -1) {
+                remaining.splice(index, 1);
+                continue;
+            }
+            problems.push({
+                uri: uri.toString(),
+                path: displayPath(uri),
+                line: diagnostic.range.start.line + 1,
+                severity: diagnostic.severity === vscode.DiagnosticSeverity.Error ? 'error' : 'warning',
+                message: diagnostic.message.replace(/\s*\n\s*/g, ' '),
+                source: [diagnostic.source, typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code]
+                    .filter(part => part !== undefined && part !== '').join(' ') || undefined
+            });
+        }
+    }
+    problems.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line);
+
+    return {
+        id: Math.random().toString(36).substring(7),
+        batchId,
+        files: uris.length,
+        problems,
+        timedOut: settled ? undefined : true
+    };
+}
+
+/** 对话中显示的检查结果摘要 */
+export function summarizeReport(report: VerificationReport, timeoutSeconds: number): string {
+    const errors = report.problems.filter(p => p.severity === 'error').length;
+    let text = report.problems.length === 0
+        ? t('verify.clean', report.files)
+        : t('verify.problems', errors, report.problems.length - errors, report.files);
+    if (report.timedOut) text += t('verify.timedOut', timeoutSeconds);
+    return text;
+}
+
+/** 修复 Prompt 中的用户指令：每个问题的诊断信息以及相关代码 (按文件合并相邻的行范围) */
+export async function buildFixupInstruction(report: VerificationReport): Promise<string> {
+    const parts = [t('verify.fixupInstruction'), ''];
+    const byFile = new Map<string, VerificationProblem[]>();
+    for (const problem of report.problems) {
+        byFile.set(problem.uri, [...byFile.get(problem.uri) ?? [], problem]);
+    }
+
+    for (const [uri, problems] of byFile) {
+        parts.push(`## ${problems[0].path}`);
+        parts.push(...problems.map(p => t('editor.diagnostic', t(`editor.severity.${p.severity}`), p.line, p.message, p.source ? ` (${p.source})` : '')));
+
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+        } catch {
+            parts.push('');
+            continue;
+        }
+        const regions: { start: number, end: number }[] = [];
+        for (const problem of problems) {
+            // 文件在检查后可能又被修改过，行号超出范围时截断
+            const end = Math.min(document.lineCount, problem.line + REGION_CONTEXT_LINES);
+            const start = Math.min(end, Math.max(1, problem.line - REGION_CONTEXT_LINES));
+            const last = regions[regions.length - 1];
+            if (last && start <= last.end + 1) {
+                last.end = Math.max(last.end, end);
+            } else {
+                regions.push({ start, end });
+            }
+        }
+        for (const region of regions) {
+            const range = new vscode.Range(region.start - 1, 0, region.end - 1, document.lineAt(region.end - 1).text.length);
+            parts.push('', t('verify.region', region.start, region.end), `\`\`\`${document.languageId}`, document.getText(range), '```');
+        }
+        parts.push('');
+    }
+    return parts.join('\n');
+}
@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { matchesAnyGlob } from './glob';
+import { t } from './i18n';
+
+export interface ResolvedPath {
+    uri: vscode.Uri;
+    folder: vscode.WorkspaceFolder;
+    /** 相对于所属工作区文件夹的路径，使用 "/" 分隔 */
+    relativePath: string;
+}
+
+/** Windows 和 macOS 的文件系统默认不区分大小写，受保护路径也按不区分大小写匹配 */
+const CASE_INSENSITIVE_FS = process.platform === 'win32' || process.platform === 'darwin';
+
+function isInside(folder: vscode.WorkspaceFolder, fsPath: string): boolean {
+    const relative = path.relative(folder.uri.fsPath, fsPath);
+    // 以 ".." 开头的文件名 (例如 "..foo") 仍在文件夹内
+    return relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative);
+}
+
+function toResolved(folder: vscode.WorkspaceFolder, fsPath: string): ResolvedPath {
+    return {
+        uri: vscode.Uri.file(fsPath),
+        folder,
+        relativePath: path.relative(folder.uri.fsPath, fsPath).split(path.sep).join('/')
+    };
+}
+
+/** 多根工作区时 Prompt 中的路径以文件夹名开头，单根时保持相对路径 */
+export function toPromptPath(folder: vscode.WorkspaceFolder, fsPath: string): string {
+    const relative = path.relative(folder.uri.fsPath, fsPath).split(path.sep).join('/');
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    return folders.length > 1 ? `${folder.name}/${relative}` : relative;
+}
+
+/**
+ * 将 AI 给出的路径解析到对应的工作区文件夹。
+ * 支持以文件夹名开头的路径 (多根工作区)、相对路径和位于工作区内的绝对路径；
+ * 解析结果落在所有工作区文件夹之外时抛出错误。
+ */
+export function resolveWorkspacePath(filePath: string): ResolvedPath {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) throw new Error(t('path.noWorkspace'));
+
+    if (path.isAbsolute(filePath)) {
+        const target = path.resolve(filePath);
+        const folder = folders.find(f => isInside(f, target));
+        if (!folder) throw new Error(t('path.outside', filePath));
+        return toResolved(folder, target);
+    }
+
+    const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+    let folder = folders[0];
+    let relative = normalized;
+    if (folders.length > 1) {
+        const [first, ...rest] = normalized.split('/');
+        const named = folders.find(f => f.name === first);
+        if (named && rest.length > 0) {
+            folder = named;
+            relative = rest.join('/');
+        }
+    }
+
+    const target = path.resolve(folder.uri.fsPath, relative);
+    if (!isInside(folder, target)) throw new Error(t('path.outside', filePath));
+    return toResolved(folder, target);
+}
+
+/** 解析路径并检查是否命中 only-agent.protectedPaths 中的受保护规则 */
+export function resolveWritablePath(filePath: string): ResolvedPath {
+    const resolved = resolveWorkspacePath(filePath);
+    if (resolved.relativePath === '') throw new Error(t('path.root', filePath));
+    const patterns = vscode.workspace.getConfiguration('only-agent', resolved.folder.uri).get<string[]>('protectedPaths', []);
+    const rule = matchesAnyGlob(resolved.relativePath, patterns, CASE_INSENSITIVE_FS);
+    if (rule) throw new Error(t('path.protected', filePath, rule));
+    return resolved;
+}